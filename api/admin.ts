@@ -1,6 +1,12 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { isAdminAuthorized } from '../lib/auth';
 import { createLicense, getLicense, getLicenseByEmail } from '../lib/db';
+import { sendRotatedKeyEmail } from '../lib/email';
+import { getLicenseEvents } from '../lib/events';
+import { createOrganization, revokeLicenseKey } from '../lib/orgs';
+import { MAX_OVERLAP_HOURS, migrateLegacyLicenses, rotateLicenseKey, toLookupKey } from '../lib/rekey';
 import { createLogger, generateRequestId } from '../lib/logger';
+import { getCostDay, getCostReport } from '../lib/usage';
 
 const log = createLogger('admin');
 
@@ -11,26 +17,37 @@ const log = createLogger('admin');
 //   Body: { action: 'create-license', email: string, plan: string }
 //   Header: Authorization: Bearer <ADMIN_SECRET or STRIPE_SECRET_KEY>
 //
+// POST /api/admin   — Turn an existing license into an organization
+//   Body: { action: 'create-org', key: string, name: string, seats: number }
+//
+// POST /api/admin   — Replace a license key (e.g. leaked); the new key is emailed
+//   Body: { action: 'rotate-key', key: string, overlapHours?: number }
+//
+// POST /api/admin   — Disable a license key for good
+//   Body: { action: 'revoke', key: string, reason: string }
+//
+// POST /api/admin   — Move licenses issued before keys were hashed
+//   Body: { action: 'migrate-keys' }
+//
+// `key` may be a license key or its lookup key. Only create-license
+// returns a license key itself; lookups return the lookup key.
+//
 // GET /api/admin?action=lookup&key=POM-XXXXX
 //   — Look up a license by key
 //
 // GET /api/admin?action=lookup-email&email=test@example.com
 //   — Look up a license by email
+//
+// GET /api/admin?action=events&key=POM-XXXXX&limit=50
+//   — Stripe webhook events applied to a license, newest first
+//
+// GET /api/admin?action=cost-report&from=2026-02-01&to=2026-02-28&limit=50
+//   — Provider cost per day, provider, plan and license (USD).
+//     Defaults to the last 30 days; at most 93 days per report.
 // ============================================================
 
-function isAuthorized(req: VercelRequest): boolean {
-  const auth = req.headers['authorization'];
-  if (!auth || !auth.startsWith('Bearer ')) return false;
-  const token = auth.slice(7).trim();
-
-  // Accept ADMIN_SECRET or STRIPE_SECRET_KEY as admin auth
-  const adminSecret = process.env.ADMIN_SECRET || process.env.STRIPE_SECRET_KEY;
-  if (!adminSecret) {
-    log.error('No ADMIN_SECRET or STRIPE_SECRET_KEY configured for admin auth');
-    return false;
-  }
-  return token === adminSecret;
-}
+const MAX_REPORT_DAYS = 93;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   const requestId = generateRequestId();
@@ -45,7 +62,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   // Auth check
-  if (!isAuthorized(req)) {
+  if (!isAdminAuthorized(req)) {
     log.warn('Unauthorized admin access attempt', { requestId, ip: req.headers['x-forwarded-for'] });
     return res.status(401).json({ error: 'Unauthorized. Provide admin secret in Authorization header.' });
   }
@@ -55,8 +72,68 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     if (req.method === 'POST') {
       const { action, email, plan } = req.body;
 
+      if (action === 'migrate-keys') {
+        const migrated = await migrateLegacyLicenses();
+        log.info('Admin migrated legacy license keys', { requestId, ...migrated });
+        return res.status(200).json(migrated);
+      }
+
+      if (action === 'rotate-key' || action === 'revoke') {
+        if (!req.body.key) return res.status(400).json({ error: 'Missing key' });
+        const license = await getLicense(await toLookupKey(String(req.body.key)));
+        if (!license) return res.status(404).json({ error: 'License not found' });
+        if (license.status === 'revoked') {
+          return res.status(409).json({ error: 'License key is already revoked', revokedAt: license.revokedAt, reason: license.revokedReason });
+        }
+
+        if (action === 'revoke') {
+          const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+          if (!reason) return res.status(400).json({ error: 'Missing reason' });
+
+          const revoked = await revokeLicenseKey(license, reason);
+          log.info('Admin revoked license key', { requestId, licenseKey: license.key, reason });
+          return res.status(200).json({ key: license.key, status: 'revoked', revokedAt: revoked?.revokedAt, reason });
+        }
+
+        const overlapHours = Number(req.body.overlapHours ?? 0);
+        if (!(overlapHours >= 0 && overlapHours <= MAX_OVERLAP_HOURS)) {
+          return res.status(400).json({ error: `overlapHours must be between 0 and ${MAX_OVERLAP_HOURS}` });
+        }
+
+        const rotated = await rotateLicenseKey(license, overlapHours);
+        if (!rotated) return res.status(409).json({ error: 'License key was changed concurrently' });
+
+        const emailSent = await sendRotatedKeyEmail(license.email, rotated.licenseKey, rotated.oldKeyValidUntil);
+        log.info('Admin rotated license key', { requestId, licenseKey: rotated.record.key, overlapHours, emailSent });
+        return res.status(200).json({
+          key: rotated.record.key,
+          previousKey: license.key,
+          email: license.email,
+          emailSent,
+          oldKeyValidUntil: rotated.oldKeyValidUntil,
+        });
+      }
+
+      if (action === 'create-org') {
+        const { name } = req.body;
+        const seats = parseInt(req.body.seats, 10);
+        if (!req.body.key || !name) return res.status(400).json({ error: 'Missing key or name' });
+        if (!(seats >= 1)) return res.status(400).json({ error: 'Invalid seats' });
+
+        const key = await toLookupKey(String(req.body.key));
+        const license = await getLicense(key);
+        if (!license) return res.status(404).json({ error: 'License not found' });
+        if (license.orgId) {
+          return res.status(409).json({ error: 'License already belongs to an organization', orgId: license.orgId });
+        }
+
+        const org = await createOrganization(license, name, seats);
+        log.info('Admin created organization', { requestId, licenseKey: key, orgId: org.id, seats });
+        return res.status(201).json(org);
+      }
+
       if (action !== 'create-license') {
-        return res.status(400).json({ error: 'Unknown action. Use: create-license' });
+        return res.status(400).json({ error: 'Unknown action. Use: create-license, create-org, rotate-key, revoke, migrate-keys' });
       }
 
       if (!email) {
@@ -72,7 +149,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         log.info('License already exists', { requestId, email, plan: existing.plan });
         return res.status(200).json({
           message: 'License already exists for this email',
-          licenseKey: existing.key,
+          key: existing.key,
           email: existing.email,
           plan: existing.plan,
           status: existing.status,
@@ -80,12 +157,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       }
 
       // Create new license
-      const licenseKey = await createLicense(email, selectedPlan);
-      log.info('Admin created license', { requestId, email, plan: selectedPlan, licenseKey });
+      const { licenseKey, record } = await createLicense(email, selectedPlan);
+      log.info('Admin created license', { requestId, email, plan: selectedPlan, licenseKey: record.key });
 
       return res.status(201).json({
         message: 'License created successfully',
         licenseKey,
+        key: record.key,
         email,
         plan: selectedPlan,
       });
@@ -96,8 +174,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       const action = req.query.action as string;
 
       if (action === 'lookup') {
-        const key = req.query.key as string;
-        if (!key) return res.status(400).json({ error: 'Missing key parameter' });
+        if (!req.query.key) return res.status(400).json({ error: 'Missing key parameter' });
+        const key = await toLookupKey(req.query.key as string);
 
         const license = await getLicense(key);
         if (!license) return res.status(404).json({ error: 'License not found' });
@@ -117,7 +195,40 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         return res.status(200).json(license);
       }
 
-      return res.status(400).json({ error: 'Unknown action. Use: lookup, lookup-email' });
+      if (action === 'events') {
+        if (!req.query.key) return res.status(400).json({ error: 'Missing key parameter' });
+        const key = await toLookupKey(req.query.key as string);
+        const limit = Math.min(200, Math.max(1, parseInt(req.query.limit as string, 10) || 50));
+
+        const events = await getLicenseEvents(key, limit);
+        log.info('Admin event ledger lookup', { requestId, licenseKey: key, count: events.length });
+        return res.status(200).json({ licenseKey: key, events });
+      }
+
+      if (action === 'cost-report') {
+        const today = new Date();
+        const defaultFrom = new Date(today.getTime() - 29 * 24 * 60 * 60 * 1000);
+        const from = (req.query.from as string) || getCostDay(defaultFrom);
+        const to = (req.query.to as string) || getCostDay(today);
+        const limit = Math.min(500, Math.max(1, parseInt(req.query.limit as string, 10) || 50));
+
+        if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+          return res.status(400).json({ error: 'Invalid date. Use YYYY-MM-DD for from and to' });
+        }
+        const days = (Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000) + 1;
+        if (!(days >= 1)) {
+          return res.status(400).json({ error: '"from" must not be after "to"' });
+        }
+        if (days > MAX_REPORT_DAYS) {
+          return res.status(400).json({ error: `Report range is limited to ${MAX_REPORT_DAYS} days` });
+        }
+
+        const report = await getCostReport(from, to, limit);
+        log.info('Admin cost report', { requestId, from, to, totalUsd: report.totalUsd });
+        return res.status(200).json(report);
+      }
+
+      return res.status(400).json({ error: 'Unknown action. Use: lookup, lookup-email, events, cost-report' });
     }
 
     return res.status(405).json({ error: 'Method not allowed' });
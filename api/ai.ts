@@ -1,7 +1,19 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { getLicense, incrementTaskCount } from '../lib/db';
-import { PLANS, getProviderFromModel, isModelAllowed } from '../lib/config';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { extractLicenseKey } from '../lib/auth';
+import { isValidLicenseKey } from '../lib/keys';
+import { resolveLicenseKey } from '../lib/rekey';
+import { LicenseRecord, decrementTaskCount, getLicense, incrementTaskCount } from '../lib/db';
+import { PLANS, getFallbackModels, getModelTier, getProviderFromModel, isModelAllowed } from '../lib/config';
 import { checkRateLimit } from '../lib/ratelimit';
+import { resolveGracePeriod } from '../lib/dunning';
+import { consumeCredit, getCreditBalance, refundCredit } from '../lib/credits';
+import { UsageAccount, getAccountTaskCount, getUsageAccount, resolveOrgLicense } from '../lib/orgs';
+import { checkDeviceActivation, extractDeviceId, isDeviceAllowed } from '../lib/devices';
+import { isLicenseToken, licenseFromToken, verifyLicenseToken } from '../lib/tokens';
+import { canCallProvider, recordProviderFailure, recordProviderSuccess } from '../lib/circuit';
+import { getMonthlyTokenUsage, recordRequestCost, recordTokenUsage } from '../lib/usage';
 import { createLogger, generateRequestId } from '../lib/logger';
 
 const log = createLogger('ai-proxy');
@@ -13,7 +25,8 @@ const log = createLogger('ai-proxy');
 //
 // Приема OpenAI-compatible заявки от extension-а.
 // Автоматично определя provider-а от model name.
-// Автентикация чрез license key (Authorization: Bearer <key>).
+// Автентикация чрез license key (Authorization: Bearer <key>)
+// или подписан token от /api/verify?token=true (lib/tokens.ts).
 // ============================================================
 
 // Provider API URLs
@@ -40,19 +53,6 @@ function getApiKey(provider: string): string | null {
   }
 }
 
-// Extract license key from request headers
-function extractLicenseKey(req: VercelRequest): string | null {
-  const xKey = req.headers['x-license-key'];
-  if (xKey && typeof xKey === 'string') return xKey;
-
-  const auth = req.headers['authorization'];
-  if (auth && typeof auth === 'string' && auth.startsWith('Bearer ')) {
-    return auth.slice(7).trim();
-  }
-
-  return null;
-}
-
 // ============================================================
 // Provider Error Normalization
 // ============================================================
@@ -67,159 +67,1615 @@ interface NormalizedError {
   statusCode: number;
 }
 
-function normalizeProviderError(
+function normalizeProviderError(
+  provider: string,
+  statusCode: number,
+  rawBody: any,
+): NormalizedError {
+  const base: NormalizedError = {
+    message: 'AI provider returned an error',
+    type: 'api_error',
+    code: 'provider_error',
+    provider,
+    statusCode,
+  };
+
+  try {
+    switch (provider) {
+      case 'openai':
+      case 'deepseek': {
+        // OpenAI format: { error: { message, type, code } }
+        const err = rawBody?.error;
+        if (err) {
+          base.message = err.message || base.message;
+          base.type = err.type || base.type;
+          base.code = err.code || base.code;
+        }
+        break;
+      }
+
+      case 'anthropic': {
+        // Anthropic format: { error: { type, message } } or { type, error: { type, message } }
+        const err = rawBody?.error;
+        if (err) {
+          base.message = err.message || base.message;
+          base.type = err.type || base.type;
+          base.code = err.type || base.code;
+        } else if (rawBody?.type === 'error') {
+          base.message = rawBody.message || base.message;
+          base.type = rawBody.error?.type || base.type;
+        }
+        break;
+      }
+
+      case 'gemini': {
+        // Gemini format: { error: { code, message, status } } or [{ error: { ... } }]
+        const err = Array.isArray(rawBody) ? rawBody[0]?.error : rawBody?.error;
+        if (err) {
+          base.message = err.message || base.message;
+          base.code = err.status || String(err.code) || base.code;
+          base.type = 'gemini_error';
+        }
+        break;
+      }
+    }
+
+    // Map common HTTP status codes to user-friendly messages
+    if (statusCode === 401 || statusCode === 403) {
+      base.message = `Authentication error with ${provider}. Please contact support.`;
+      base.code = 'provider_auth_error';
+    } else if (statusCode === 429) {
+      base.message = `${provider} rate limit exceeded. Please try again in a moment.`;
+      base.code = 'provider_rate_limit';
+    } else if (statusCode === 500 || statusCode === 502 || statusCode === 503 || statusCode === 504 || statusCode === 529) {
+      base.message = `${provider} is temporarily unavailable. Please try again later.`;
+      base.code = 'provider_unavailable';
+    }
+  } catch {
+    // If normalization fails, return the base error
+  }
+
+  return base;
+}
+
+// ============================================================
+// Image Inputs (OpenAI image_url parts)
+// ============================================================
+// Screenshots arrive as OpenAI `image_url` parts holding either a
+// data URL or an http(s) URL. Anthropic and Gemini need the raw
+// bytes, so remote images are downloaded and every image is
+// validated here before the provider request is built.
+
+const ALLOWED_IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/webp', 'image/gif']);
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024; // Anthropic's per-image limit
+const MAX_IMAGES_PER_REQUEST = 20;
+const IMAGE_FETCH_TIMEOUT_MS = 10_000;
+const MAX_IMAGE_REDIRECTS = 3;
+
+// Addresses an image URL may not point to: loopback, private,
+// link-local (cloud metadata at 169.254.169.254), CGNAT, multicast
+// and reserved ranges. IPv4-mapped IPv6 addresses are checked
+// against the IPv4 ranges by BlockList itself.
+const BLOCKED_IMAGE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_IMAGE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['2002::', 16], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  BLOCKED_IMAGE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// Internal part type that replaces image_url once the bytes are known
+interface InlineImagePart {
+  type: 'inline_image';
+  mimeType: string;
+  data: string; // base64
+}
+
+function isImagePart(part: any): boolean {
+  return part?.type === 'image_url' && (typeof part.image_url === 'string' || typeof part.image_url?.url === 'string');
+}
+
+function countImageParts(messages: any[]): number {
+  return messages.reduce(
+    (n, m) => n + (Array.isArray(m.content) ? m.content.filter(isImagePart).length : 0),
+    0,
+  );
+}
+
+function base64ByteLength(data: string): number {
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+  return Math.floor((data.length * 3) / 4) - padding;
+}
+
+function validateImage(mimeType: string, bytes: number): string | null {
+  if (!ALLOWED_IMAGE_TYPES.has(mimeType)) {
+    return `Unsupported image type "${mimeType}". Use PNG, JPEG, WebP or GIF.`;
+  }
+  if (bytes > MAX_IMAGE_BYTES) {
+    return `Image is too large (${(bytes / 1024 / 1024).toFixed(1)} MB). Maximum is ${MAX_IMAGE_BYTES / 1024 / 1024} MB.`;
+  }
+  return null;
+}
+
+function parseDataUrl(url: string): { mimeType: string; data: string } | null {
+  const match = url.match(/^data:([^;,]+)(?:;[^,]*)?;base64,(.*)$/s);
+  if (!match) return null;
+  return { mimeType: match[1].toLowerCase(), data: match[2].replace(/\s/g, '') };
+}
+
+// Resolve the URL's host and refuse it unless every address it resolves to is public
+async function checkImageHost(url: URL): Promise<string | null> {
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses: { address: string; family: number }[];
+  try {
+    addresses = isIP(host) ? [{ address: host, family: isIP(host) }] : await lookup(host, { all: true, verbatim: true });
+  } catch {
+    return 'Could not download image: host not found.';
+  }
+  const blocked = addresses.length === 0 || addresses.some(({ address, family }) =>
+    BLOCKED_IMAGE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'));
+  return blocked ? 'Image URL must point to a public host.' : null;
+}
+
+// Read the body until it ends or grows past `limit` bytes; null if it was too large
+async function readBodyUpTo(response: Response, limit: number): Promise<Buffer | null> {
+  if (!response.body) return Buffer.alloc(0);
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return Buffer.concat(chunks);
+    total += value.length;
+    if (total > limit) {
+      await reader.cancel().catch(() => {});
+      return null;
+    }
+    chunks.push(value);
+  }
+}
+
+async function downloadImage(url: string): Promise<InlineImagePart | string> {
+  const signal = AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS);
+  let target = URL.canParse(url) ? new URL(url) : null;
+  let response: Response;
+
+  // Redirects are followed by hand so every hop goes through the host check
+  for (let hop = 0; ; hop++) {
+    if (!target || (target.protocol !== 'http:' && target.protocol !== 'https:')) {
+      return 'Image URL must be a data URL or an http(s) URL.';
+    }
+    const hostError = await checkImageHost(target);
+    if (hostError) return hostError;
+
+    try {
+      response = await fetch(target, { signal, redirect: 'manual' });
+    } catch (err: any) {
+      return `Could not download image: ${err.name === 'TimeoutError' ? 'timed out' : 'network error'}.`;
+    }
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) break;
+    await response.body?.cancel().catch(() => {});
+    if (hop >= MAX_IMAGE_REDIRECTS) return 'Could not download image: too many redirects.';
+    target = URL.canParse(location, target) ? new URL(location, target) : null;
+  }
+
+  if (!response.ok) {
+    return `Could not download image (HTTP ${response.status}).`;
+  }
+
+  const mimeType = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+  const declaredLength = parseInt(response.headers.get('content-length') || '0', 10);
+  const early = validateImage(mimeType, declaredLength);
+  if (early) {
+    await response.body?.cancel().catch(() => {});
+    return early;
+  }
+
+  // Content-Length may be missing or wrong (chunked responses), so the cap is enforced while reading
+  let buffer: Buffer | null;
+  try {
+    buffer = await readBodyUpTo(response, MAX_IMAGE_BYTES);
+  } catch (err: any) {
+    return `Could not download image: ${err.name === 'TimeoutError' ? 'timed out' : 'network error'}.`;
+  }
+  if (!buffer) {
+    return `Image is too large. Maximum is ${MAX_IMAGE_BYTES / 1024 / 1024} MB.`;
+  }
+  const error = validateImage(mimeType, buffer.length);
+  if (error) return error;
+
+  return { type: 'inline_image', mimeType, data: buffer.toString('base64') };
+}
+
+async function resolveImagePart(part: any): Promise<InlineImagePart | string> {
+  const url: string = typeof part.image_url === 'string' ? part.image_url : part.image_url.url;
+
+  if (url.startsWith('data:')) {
+    const parsed = parseDataUrl(url);
+    if (!parsed) return 'Invalid image data URL. Expected data:<mime>;base64,<data>.';
+    const error = validateImage(parsed.mimeType, base64ByteLength(parsed.data));
+    if (error) return error;
+    return { type: 'inline_image', ...parsed };
+  }
+
+  if (/^https?:\/\//i.test(url)) {
+    return downloadImage(url);
+  }
+
+  return 'Image URL must be a data URL or an http(s) URL.';
+}
+
+/**
+ * Validate every image_url part and, for providers that need raw bytes,
+ * replace it with an inline_image part. Returns the rewritten messages
+ * or an error message suitable for a 400 response.
+ */
+export async function resolveImages(
+  messages: any[],
+  provider: string,
+): Promise<{ messages: any[] } | { error: string }> {
+  if (countImageParts(messages) > MAX_IMAGES_PER_REQUEST) {
+    return { error: `Too many images. Maximum is ${MAX_IMAGES_PER_REQUEST} per request.` };
+  }
+
+  const inline = provider === 'anthropic' || provider === 'gemini';
+  const resolved: any[] = [];
+
+  for (const m of messages) {
+    if (!Array.isArray(m.content) || !m.content.some(isImagePart)) {
+      resolved.push(m);
+      continue;
+    }
+
+    const content: any[] = [];
+    for (const part of m.content) {
+      if (!isImagePart(part)) {
+        content.push(part);
+        continue;
+      }
+      // OpenAI fetches http(s) URLs itself; only data URLs are checked locally
+      const url = typeof part.image_url === 'string' ? part.image_url : part.image_url.url;
+      if (!inline && !url.startsWith('data:')) {
+        content.push(part);
+        continue;
+      }
+      const image = await resolveImagePart(part);
+      if (typeof image === 'string') return { error: image };
+      content.push(inline ? image : part);
+    }
+    resolved.push({ ...m, content });
+  }
+
+  return { messages: resolved };
+}
+
+// ============================================================
+// Request Builders (OpenAI, Anthropic, Gemini)
+// ============================================================
+
+// Flatten OpenAI message content (string or parts array) to plain text
+function contentToText(content: any): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content
+      .filter((p: any) => p?.type === 'text' && typeof p.text === 'string')
+      .map((p: any) => p.text)
+      .join('\n');
+  }
+  return content == null ? '' : JSON.stringify(content);
+}
+
+// Tool call arguments arrive as a JSON string; providers other than OpenAI want an object
+function parseToolArguments(args: any): Record<string, unknown> {
+  if (args && typeof args === 'object') return args;
+  if (typeof args !== 'string' || !args.trim()) return {};
+  try {
+    const parsed = JSON.parse(args);
+    return parsed && typeof parsed === 'object' ? parsed : { value: parsed };
+  } catch {
+    return { raw: args };
+  }
+}
+
+// Map tool_call_id → function name from earlier assistant turns.
+// Gemini's functionResponse is matched by name, not by ID.
+function collectToolCallNames(messages: any[]): Map<string, string> {
+  const names = new Map<string, string>();
+  for (const m of messages) {
+    if (m.role !== 'assistant' || !Array.isArray(m.tool_calls)) continue;
+    for (const call of m.tool_calls) {
+      if (call?.id && call.function?.name) names.set(call.id, call.function.name);
+    }
+  }
+  return names;
+}
+
+// Anthropic and Gemini reject consecutive turns from the same role
+// in some cases (e.g. several tool results in a row), so merge them.
+function mergeConsecutiveTurns<T extends { role: string }>(
+  turns: T[],
+  merge: (into: T, from: T) => void,
+): T[] {
+  const merged: T[] = [];
+  for (const turn of turns) {
+    const last = merged[merged.length - 1];
+    if (last && last.role === turn.role) {
+      merge(last, turn);
+    } else {
+      merged.push(turn);
+    }
+  }
+  return merged;
+}
+
+function buildOpenAIRequest(body: any, apiKey: string, provider: string) {
+  const payload: any = {
+    model: body.model,
+    messages: body.messages,
+  };
+  if (body.temperature !== undefined) payload.temperature = body.temperature;
+  if (body.max_tokens !== undefined) payload.max_tokens = body.max_tokens;
+  if (body.stream !== undefined) payload.stream = body.stream;
+  if (body.response_format !== undefined) payload.response_format = body.response_format;
+  if (body.top_p !== undefined) payload.top_p = body.top_p;
+  if (body.tools !== undefined) payload.tools = body.tools;
+  if (body.tool_choice !== undefined) payload.tool_choice = body.tool_choice;
+  if (body.parallel_tool_calls !== undefined) payload.parallel_tool_calls = body.parallel_tool_calls;
+  if (body.stream) {
+    // Always ask for the final usage chunk so tokens can be metered;
+    // the transcoder drops it again if the client didn't request it
+    payload.stream_options = { ...body.stream_options, include_usage: true };
+  }
+
+  const url = provider === 'deepseek' ? PROVIDER_URLS.deepseek : PROVIDER_URLS.openai;
+
+  return {
+    url,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify(payload),
+  };
+}
+
+function toAnthropicContent(content: any): any[] {
+  if (!Array.isArray(content)) {
+    const text = contentToText(content);
+    return text ? [{ type: 'text', text }] : [];
+  }
+
+  const blocks: any[] = [];
+  for (const part of content) {
+    if (part?.type === 'text' && part.text) {
+      blocks.push({ type: 'text', text: part.text });
+    } else if (part?.type === 'inline_image') {
+      blocks.push({
+        type: 'image',
+        source: { type: 'base64', media_type: part.mimeType, data: part.data },
+      });
+    }
+  }
+  return blocks;
+}
+
+function toAnthropicMessages(messages: any[]): any[] {
+  const turns = messages
+    .filter(m => m.role !== 'system')
+    .map(m => {
+      if (m.role === 'tool') {
+        return {
+          role: 'user',
+          content: [{
+            type: 'tool_result',
+            tool_use_id: m.tool_call_id,
+            content: contentToText(m.content),
+          }],
+        };
+      }
+
+      if (m.role === 'assistant') {
+        const content = toAnthropicContent(m.content);
+        for (const call of m.tool_calls || []) {
+          content.push({
+            type: 'tool_use',
+            id: call.id,
+            name: call.function?.name,
+            input: parseToolArguments(call.function?.arguments),
+          });
+        }
+        return { role: 'assistant', content };
+      }
+
+      return { role: 'user', content: toAnthropicContent(m.content) };
+    })
+    .filter(turn => turn.content.length > 0);
+
+  return mergeConsecutiveTurns(turns, (into, from) => {
+    into.content.push(...from.content);
+  });
+}
+
+function toAnthropicTools(tools: any[]): any[] {
+  return tools
+    .filter(t => t?.type === 'function' && t.function?.name)
+    .map(t => ({
+      name: t.function.name,
+      description: t.function.description,
+      input_schema: t.function.parameters || { type: 'object', properties: {} },
+    }));
+}
+
+function toAnthropicToolChoice(toolChoice: any, parallelToolCalls?: boolean): any {
+  let choice: any;
+  if (toolChoice === 'required') {
+    choice = { type: 'any' };
+  } else if (toolChoice === 'none') {
+    choice = { type: 'none' };
+  } else if (toolChoice?.type === 'function' && toolChoice.function?.name) {
+    choice = { type: 'tool', name: toolChoice.function.name };
+  } else {
+    choice = { type: 'auto' };
+  }
+  if (parallelToolCalls === false && choice.type !== 'none') {
+    choice.disable_parallel_tool_use = true;
+  }
+  return choice;
+}
+
+function buildAnthropicRequest(body: any, apiKey: string) {
+  const systemText = body.messages
+    .filter((m: any) => m.role === 'system')
+    .map((m: any) => contentToText(m.content))
+    .join('\n\n');
+
+  const payload: any = {
+    model: body.model,
+    messages: toAnthropicMessages(body.messages),
+    max_tokens: body.max_tokens || 4096,
+  };
+  if (systemText) payload.system = systemText;
+  if (body.temperature !== undefined) payload.temperature = body.temperature;
+  if (body.stream !== undefined) payload.stream = body.stream;
+  if (body.top_p !== undefined) payload.top_p = body.top_p;
+  if (Array.isArray(body.tools) && body.tools.length > 0) {
+    payload.tools = toAnthropicTools(body.tools);
+    payload.tool_choice = toAnthropicToolChoice(body.tool_choice, body.parallel_tool_calls);
+  }
+
+  return {
+    url: PROVIDER_URLS.anthropic,
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': apiKey,
+      'anthropic-version': '2023-06-01',
+    },
+    body: JSON.stringify(payload),
+  };
+}
+
+// Gemini accepts only an OpenAPI subset of JSON Schema
+const GEMINI_UNSUPPORTED_SCHEMA_KEYS = new Set(['$schema', '$id', 'additionalProperties', 'strict', 'default', 'examples']);
+
+function toGeminiSchema(schema: any): any {
+  if (Array.isArray(schema)) return schema.map(toGeminiSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+
+  const result: any = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (GEMINI_UNSUPPORTED_SCHEMA_KEYS.has(key)) continue;
+    result[key] = key === 'properties' && value && typeof value === 'object'
+      ? Object.fromEntries(Object.entries(value).map(([name, prop]) => [name, toGeminiSchema(prop)]))
+      : toGeminiSchema(value);
+  }
+  return result;
+}
+
+function toGeminiParts(content: any): any[] {
+  if (!Array.isArray(content)) {
+    const text = contentToText(content);
+    return text ? [{ text }] : [];
+  }
+
+  const parts: any[] = [];
+  for (const part of content) {
+    if (part?.type === 'text' && part.text) {
+      parts.push({ text: part.text });
+    } else if (part?.type === 'inline_image') {
+      parts.push({ inlineData: { mimeType: part.mimeType, data: part.data } });
+    }
+  }
+  return parts;
+}
+
+function toGeminiContents(messages: any[]): any[] {
+  const toolNames = collectToolCallNames(messages);
+
+  const turns = messages
+    .filter(m => m.role !== 'system')
+    .map(m => {
+      if (m.role === 'tool') {
+        return {
+          role: 'user',
+          parts: [{
+            functionResponse: {
+              name: toolNames.get(m.tool_call_id) || m.name || 'unknown',
+              response: { content: contentToText(m.content) },
+            },
+          }],
+        };
+      }
+
+      if (m.role === 'assistant') {
+        const parts = toGeminiParts(m.content);
+        for (const call of m.tool_calls || []) {
+          parts.push({
+            functionCall: {
+              name: call.function?.name,
+              args: parseToolArguments(call.function?.arguments),
+            },
+          });
+        }
+        return { role: 'model', parts };
+      }
+
+      return { role: 'user', parts: toGeminiParts(m.content) };
+    })
+    .filter(turn => turn.parts.length > 0);
+
+  return mergeConsecutiveTurns(turns, (into, from) => {
+    into.parts.push(...from.parts);
+  });
+}
+
+function toGeminiToolConfig(toolChoice: any): any {
+  if (toolChoice === 'required') {
+    return { functionCallingConfig: { mode: 'ANY' } };
+  }
+  if (toolChoice === 'none') {
+    return { functionCallingConfig: { mode: 'NONE' } };
+  }
+  if (toolChoice?.type === 'function' && toolChoice.function?.name) {
+    return { functionCallingConfig: { mode: 'ANY', allowedFunctionNames: [toolChoice.function.name] } };
+  }
+  return { functionCallingConfig: { mode: 'AUTO' } };
+}
+
+function buildGeminiRequest(body: any, apiKey: string) {
+  const systemText = body.messages
+    .filter((m: any) => m.role === 'system')
+    .map((m: any) => contentToText(m.content))
+    .join('\n\n');
+
+  const payload: any = {
+    contents: toGeminiContents(body.messages),
+    generationConfig: {} as any,
+  };
+  if (systemText) {
+    payload.systemInstruction = { parts: [{ text: systemText }] };
+  }
+  if (body.temperature !== undefined) payload.generationConfig.temperature = body.temperature;
+  if (body.max_tokens !== undefined) payload.generationConfig.maxOutputTokens = body.max_tokens;
+  if (body.top_p !== undefined) payload.generationConfig.topP = body.top_p;
+  if (Array.isArray(body.tools) && body.tools.length > 0) {
+    payload.tools = [{
+      functionDeclarations: body.tools
+        .filter((t: any) => t?.type === 'function' && t.function?.name)
+        .map((t: any) => ({
+          name: t.function.name,
+          description: t.function.description,
+          ...(t.function.parameters && { parameters: toGeminiSchema(t.function.parameters) }),
+        })),
+    }];
+    payload.toolConfig = toGeminiToolConfig(body.tool_choice);
+  }
+
+  // alt=sse makes Gemini emit one SSE event per chunk instead of a
+  // single JSON array that only becomes parseable once it is complete
+  const method = body.stream ? 'streamGenerateContent?alt=sse&' : 'generateContent?';
+  const url = `${PROVIDER_URLS.gemini}/models/${body.model}:${method}key=${apiKey}`;
+
+  return {
+    url,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  };
+}
+
+// ============================================================
+// Response Normalizers (Anthropic, Gemini → OpenAI)
+// ============================================================
+// The extension only understands the OpenAI chat.completion
+// schema, so every provider reply is translated before it is
+// returned. OpenAI and DeepSeek already speak this format.
+
+interface ChatCompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+interface ToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+interface ChatCompletion {
+  id: string;
+  object: 'chat.completion';
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: { role: 'assistant'; content: string | null; tool_calls?: ToolCall[] };
+    finish_reason: string | null;
+  }>;
+  usage?: ChatCompletionUsage;
+}
+
+// Gemini function calls carry no ID (older models), so synthesize one
+function generateToolCallId(): string {
+  return `call_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function anthropicToolCall(block: any): ToolCall {
+  return {
+    id: block.id || generateToolCallId(),
+    type: 'function',
+    function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+  };
+}
+
+function geminiToolCall(functionCall: any): ToolCall {
+  return {
+    id: functionCall.id || generateToolCallId(),
+    type: 'function',
+    function: { name: functionCall.name, arguments: JSON.stringify(functionCall.args ?? {}) },
+  };
+}
+
+// Anthropic stop_reason → OpenAI finish_reason
+function mapAnthropicFinishReason(reason: string | null | undefined): string | null {
+  switch (reason) {
+    case 'end_turn':
+    case 'stop_sequence':
+      return 'stop';
+    case 'max_tokens':
+      return 'length';
+    case 'tool_use':
+      return 'tool_calls';
+    case 'refusal':
+      return 'content_filter';
+    default:
+      return reason ? 'stop' : null;
+  }
+}
+
+// Gemini finishReason → OpenAI finish_reason
+function mapGeminiFinishReason(reason: string | null | undefined): string | null {
+  switch (reason) {
+    case 'STOP':
+      return 'stop';
+    case 'MAX_TOKENS':
+      return 'length';
+    case 'SAFETY':
+    case 'RECITATION':
+    case 'BLOCKLIST':
+    case 'PROHIBITED_CONTENT':
+    case 'SPII':
+      return 'content_filter';
+    case undefined:
+    case null:
+    case 'FINISH_REASON_UNSPECIFIED':
+      return null;
+    default:
+      return 'stop';
+  }
+}
+
+function normalizeAnthropicResponse(data: any, model: string, requestId: string): ChatCompletion {
+  const blocks: any[] = Array.isArray(data?.content) ? data.content : [];
+  const text = blocks
+    .filter(b => b?.type === 'text')
+    .map(b => b.text || '')
+    .join('');
+  const toolCalls = blocks.filter(b => b?.type === 'tool_use').map(anthropicToolCall);
+
+  const promptTokens = data?.usage?.input_tokens ?? 0;
+  const completionTokens = data?.usage?.output_tokens ?? 0;
+
+  return {
+    id: data?.id ? `chatcmpl-${data.id}` : `chatcmpl-${requestId}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: data?.model || model,
+    choices: [{
+      index: 0,
+      message: {
+        role: 'assistant',
+        content: text || (toolCalls.length > 0 ? null : ''),
+        ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+      },
+      finish_reason: mapAnthropicFinishReason(data?.stop_reason),
+    }],
+    usage: {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    },
+  };
+}
+
+function normalizeGeminiResponse(data: any, model: string, requestId: string): ChatCompletion {
+  const candidates: any[] = Array.isArray(data?.candidates) ? data.candidates : [];
+
+  const choices: ChatCompletion['choices'] = candidates.map((candidate, i) => {
+    const parts: any[] = Array.isArray(candidate?.content?.parts) ? candidate.content.parts : [];
+    const text = parts
+      .filter(p => typeof p?.text === 'string' && !p.thought)
+      .map(p => p.text)
+      .join('');
+    const toolCalls = parts.filter(p => p?.functionCall).map(p => geminiToolCall(p.functionCall));
+
+    // Gemini reports STOP even when the turn ended with function calls
+    const finishReason = mapGeminiFinishReason(candidate?.finishReason);
+
+    return {
+      index: typeof candidate?.index === 'number' ? candidate.index : i,
+      message: {
+        role: 'assistant',
+        content: text || (toolCalls.length > 0 ? null : ''),
+        ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+      },
+      finish_reason: toolCalls.length > 0 && finishReason === 'stop' ? 'tool_calls' : finishReason,
+    };
+  });
+
+  // A prompt blocked by safety filters comes back with no candidates at all
+  if (choices.length === 0) {
+    choices.push({
+      index: 0,
+      message: { role: 'assistant', content: null },
+      finish_reason: data?.promptFeedback?.blockReason ? 'content_filter' : 'stop',
+    });
+  }
+
+  const usage = data?.usageMetadata;
+  const promptTokens = usage?.promptTokenCount ?? 0;
+  const completionTokens = (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0);
+
+  return {
+    id: data?.responseId ? `chatcmpl-${data.responseId}` : `chatcmpl-${requestId}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: data?.modelVersion || model,
+    choices,
+    usage: {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: usage?.totalTokenCount ?? promptTokens + completionTokens,
+    },
+  };
+}
+
+// Translate any provider's non-streaming reply into an OpenAI chat.completion
+function normalizeProviderResponse(
+  provider: string,
+  data: any,
+  model: string,
+  requestId: string,
+): ChatCompletion {
+  switch (provider) {
+    case 'anthropic':
+      return normalizeAnthropicResponse(data, model, requestId);
+    case 'gemini':
+      return normalizeGeminiResponse(data, model, requestId);
+    default:
+      return data;
+  }
+}
+
+// ============================================================
+// Stream Transcoders (provider SSE → OpenAI chunk SSE)
+// ============================================================
+// Every provider streams in its own event format. A transcoder
+// consumes raw text from the provider and returns OpenAI
+// chat.completion.chunk frames, always terminated by [DONE].
+// A stream that ends before the provider's terminal event (OpenAI
+// [DONE], Anthropic message_stop, a Gemini finishReason) was cut
+// off: it ends with an error frame and counts as failed.
+
+export interface StreamTranscoder {
+  push(text: string): string[];
+  end(): string[];
+  error(message: string): string[];
+  usage(): ChatCompletionUsage | null;
+  failed(): boolean;
+}
+
+function sseFrame(data: unknown): string {
+  return `data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`;
+}
+
+// Splits raw SSE text into complete `data:` payloads, buffering partial lines
+function createSSEParser() {
+  let buffer = '';
+  return {
+    feed(text: string): string[] {
+      buffer += text;
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? '';
+      return lines
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trim())
+        .filter(Boolean);
+    },
+    flush(): string[] {
+      const rest = buffer.trim();
+      buffer = '';
+      return rest.startsWith('data:') ? [rest.slice(5).trim()].filter(Boolean) : [];
+    },
+  };
+}
+
+function createChunkWriter(model: string, requestId: string) {
+  const state = {
+    id: `chatcmpl-${requestId}`,
+    model,
+    created: Math.floor(Date.now() / 1000),
+  };
+
+  return {
+    state,
+    chunk(delta: Record<string, unknown>, finishReason: string | null = null): string {
+      return sseFrame({
+        id: state.id,
+        object: 'chat.completion.chunk',
+        created: state.created,
+        model: state.model,
+        choices: [{ index: 0, delta, finish_reason: finishReason }],
+      });
+    },
+    usage(usage: ChatCompletionUsage): string {
+      return sseFrame({
+        id: state.id,
+        object: 'chat.completion.chunk',
+        created: state.created,
+        model: state.model,
+        choices: [],
+        usage,
+      });
+    },
+  };
+}
+
+function streamErrorFrame(message: string): string {
+  return sseFrame({ error: { message, type: 'api_error', code: 'stream_interrupted' } });
+}
+
+const TRUNCATED_STREAM_MESSAGE = 'The AI provider stream ended unexpectedly. Please try again.';
+
+// OpenAI and DeepSeek already emit chunk frames; they are forwarded as-is
+function createOpenAITranscoder(includeUsage: boolean): StreamTranscoder {
+  const parser = createSSEParser();
+  let usage: ChatCompletionUsage | null = null;
+  let failed = false;
+  let finished = false;
+
+  const forward = (payloads: string[]) => {
+    const frames: string[] = [];
+    for (const payload of payloads) {
+      if (finished) break;
+      if (payload === '[DONE]') {
+        finished = true;
+      } else {
+        try {
+          const chunk = JSON.parse(payload);
+          if (chunk?.error) failed = true;
+          if (chunk?.usage) {
+            usage = chunk.usage;
+            // Usage-only chunk we requested for metering, not the client
+            if (!includeUsage && Array.isArray(chunk.choices) && chunk.choices.length === 0) continue;
+          }
+        } catch {
+          // Forward unparseable payloads untouched
+        }
+      }
+      frames.push(sseFrame(payload));
+    }
+    return frames;
+  };
+
+  return {
+    push: text => forward(parser.feed(text)),
+    end() {
+      const frames = forward(parser.flush());
+      if (!finished) {
+        failed = true;
+        finished = true;
+        frames.push(streamErrorFrame(TRUNCATED_STREAM_MESSAGE), sseFrame('[DONE]'));
+      }
+      return frames;
+    },
+    error(message) {
+      failed = true;
+      if (finished) return [];
+      finished = true;
+      return [streamErrorFrame(message), sseFrame('[DONE]')];
+    },
+    usage: () => usage,
+    failed: () => failed,
+  };
+}
+
+function createAnthropicTranscoder(model: string, requestId: string, includeUsage: boolean): StreamTranscoder {
+  const parser = createSSEParser();
+  const writer = createChunkWriter(model, requestId);
+  // Anthropic content block index → OpenAI tool_calls index
+  const toolIndexes = new Map<number, number>();
+  let promptTokens = 0;
+  let completionTokens = 0;
+  let finishReason: string | null = null;
+  let started = false;
+  let failed = false;
+  let finished = false;
+
+  const start = (): string[] => {
+    if (started) return [];
+    started = true;
+    return [writer.chunk({ role: 'assistant', content: '' })];
+  };
+
+  const finish = (): string[] => {
+    if (finished) return [];
+    finished = true;
+    const frames = [...start(), writer.chunk({}, finishReason ?? 'stop')];
+    if (includeUsage) {
+      frames.push(writer.usage({
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      }));
+    }
+    frames.push(sseFrame('[DONE]'));
+    return frames;
+  };
+
+  const handle = (payload: string): string[] => {
+    if (finished) return [];
+    let event: any;
+    try {
+      event = JSON.parse(payload);
+    } catch {
+      return [];
+    }
+
+    switch (event?.type) {
+      case 'message_start': {
+        const message = event.message || {};
+        if (message.id) writer.state.id = `chatcmpl-${message.id}`;
+        if (message.model) writer.state.model = message.model;
+        promptTokens = message.usage?.input_tokens ?? promptTokens;
+        completionTokens = message.usage?.output_tokens ?? completionTokens;
+        return start();
+      }
+      case 'content_block_start': {
+        const block = event.content_block;
+        if (block?.type !== 'tool_use') return [];
+        const index = toolIndexes.size;
+        toolIndexes.set(event.index, index);
+        return [...start(), writer.chunk({
+          tool_calls: [{
+            index,
+            id: block.id,
+            type: 'function',
+            function: { name: block.name, arguments: '' },
+          }],
+        })];
+      }
+      case 'content_block_delta': {
+        if (event.delta?.type === 'text_delta' && event.delta.text) {
+          return [...start(), writer.chunk({ content: event.delta.text })];
+        }
+        if (event.delta?.type === 'input_json_delta' && event.delta.partial_json) {
+          const index = toolIndexes.get(event.index);
+          if (index === undefined) return [];
+          return [writer.chunk({
+            tool_calls: [{ index, function: { arguments: event.delta.partial_json } }],
+          })];
+        }
+        return [];
+      }
+      case 'message_delta': {
+        if (event.delta?.stop_reason) {
+          finishReason = mapAnthropicFinishReason(event.delta.stop_reason);
+        }
+        completionTokens = event.usage?.output_tokens ?? completionTokens;
+        return [];
+      }
+      case 'message_stop':
+        return finish();
+      case 'error': {
+        const normalized = normalizeProviderError('anthropic', 500, event);
+        failed = true;
+        finished = true;
+        return [streamErrorFrame(normalized.message), sseFrame('[DONE]')];
+      }
+      default:
+        // ping, content_block_stop
+        return [];
+    }
+  };
+
+  return {
+    push: text => parser.feed(text).flatMap(handle),
+    end() {
+      const frames = parser.flush().flatMap(handle);
+      if (finished) return frames;
+      // No message_stop: the stream was cut off
+      failed = true;
+      finished = true;
+      return [...frames, streamErrorFrame(TRUNCATED_STREAM_MESSAGE), sseFrame('[DONE]')];
+    },
+    error(message) {
+      failed = true;
+      if (finished) return [];
+      finished = true;
+      return [streamErrorFrame(message), sseFrame('[DONE]')];
+    },
+    usage: () => ({
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    }),
+    failed: () => failed,
+  };
+}
+
+function createGeminiTranscoder(model: string, requestId: string, includeUsage: boolean): StreamTranscoder {
+  const parser = createSSEParser();
+  const writer = createChunkWriter(model, requestId);
+  let usage: ChatCompletionUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+  let finishReason: string | null = null;
+  let toolCallCount = 0;
+  let started = false;
+  let completed = false;   // Gemini sent a finishReason (or blocked the prompt)
+  let failed = false;
+  let finished = false;
+
+  const start = (): string[] => {
+    if (started) return [];
+    started = true;
+    return [writer.chunk({ role: 'assistant', content: '' })];
+  };
+
+  const handle = (payload: string): string[] => {
+    if (finished) return [];
+    let data: any;
+    try {
+      data = JSON.parse(payload);
+    } catch {
+      return [];
+    }
+
+    if (data?.error) {
+      const normalized = normalizeProviderError('gemini', data.error.code || 500, data);
+      failed = true;
+      finished = true;
+      return [streamErrorFrame(normalized.message), sseFrame('[DONE]')];
+    }
+
+    if (data?.responseId) writer.state.id = `chatcmpl-${data.responseId}`;
+    if (data?.modelVersion) writer.state.model = data.modelVersion;
+
+    // usageMetadata is cumulative, so the last one seen wins
+    if (data?.usageMetadata) {
+      const meta = data.usageMetadata;
+      const promptTokens = meta.promptTokenCount ?? 0;
+      const completionTokens = (meta.candidatesTokenCount ?? 0) + (meta.thoughtsTokenCount ?? 0);
+      usage = {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: meta.totalTokenCount ?? promptTokens + completionTokens,
+      };
+    }
+
+    if (data?.promptFeedback?.blockReason) {
+      finishReason = 'content_filter';
+      completed = true;
+    }
+
+    const candidate = data?.candidates?.[0];
+    if (candidate?.finishReason) {
+      finishReason = mapGeminiFinishReason(candidate.finishReason) ?? finishReason;
+      completed = true;
+    }
+
+    const parts: any[] = Array.isArray(candidate?.content?.parts) ? candidate.content.parts : [];
+    const text = parts
+      .filter(p => typeof p?.text === 'string' && !p.thought)
+      .map(p => p.text)
+      .join('');
+
+    const frames: string[] = [];
+    if (text) frames.push(...start(), writer.chunk({ content: text }));
+
+    // Gemini streams each function call whole, never in fragments
+    for (const part of parts) {
+      if (!part?.functionCall) continue;
+      frames.push(...start(), writer.chunk({
+        tool_calls: [{ index: toolCallCount++, ...geminiToolCall(part.functionCall) }],
+      }));
+    }
+    return frames;
+  };
+
+  const finish = (): string[] => {
+    if (finished) return [];
+    finished = true;
+    if (toolCallCount > 0 && (finishReason === 'stop' || finishReason === null)) {
+      finishReason = 'tool_calls';
+    }
+    const frames = [...start(), writer.chunk({}, finishReason ?? 'stop')];
+    if (includeUsage) frames.push(writer.usage(usage));
+    frames.push(sseFrame('[DONE]'));
+    return frames;
+  };
+
+  return {
+    push: text => parser.feed(text).flatMap(handle),
+    end() {
+      const frames = parser.flush().flatMap(handle);
+      if (completed) return [...frames, ...finish()];
+      if (finished) return frames;
+      // No finishReason: the stream was cut off
+      failed = true;
+      finished = true;
+      return [...frames, streamErrorFrame(TRUNCATED_STREAM_MESSAGE), sseFrame('[DONE]')];
+    },
+    error(message) {
+      failed = true;
+      if (finished) return [];
+      finished = true;
+      return [streamErrorFrame(message), sseFrame('[DONE]')];
+    },
+    usage: () => usage,
+    failed: () => failed,
+  };
+}
+
+export function createStreamTranscoder(
+  provider: string,
+  model: string,
+  requestId: string,
+  includeUsage: boolean,
+): StreamTranscoder {
+  switch (provider) {
+    case 'anthropic':
+      return createAnthropicTranscoder(model, requestId, includeUsage);
+    case 'gemini':
+      return createGeminiTranscoder(model, requestId, includeUsage);
+    default:
+      return createOpenAITranscoder(includeUsage);
+  }
+}
+
+// ============================================================
+// Provider Calls & Fallback
+// ============================================================
+// Retryable failures (rate limits, overload, 5xx, network) are
+// retried on the same model with jittered backoff, then move on
+// to the next model in the plan's fallback chain. Nothing has been
+// sent to the client at that point — for streams the first chunk
+// is read before we commit — so retrying and switching are safe.
+// Providers whose circuit is open (lib/circuit.ts) are skipped.
+// All attempts share one deadline (REQUEST_DEADLINE_MS from the
+// start of the request), so a retry or fallback that couldn't get
+// an answer started before the function is killed isn't tried.
+
+// 529 is Anthropic's "overloaded"
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504, 529]);
+
+// Statuses that mean the provider itself is unhealthy (429 is a quota, not an outage)
+const CIRCUIT_FAILURE_STATUSES = new Set([408, 500, 502, 503, 504, 529]);
+
+// Time for the provider to start answering (headers and first stream chunk);
+// non-streaming requests must deliver the whole body within it
+const PROVIDER_TIMEOUT_MS = parseInt(process.env.PROVIDER_TIMEOUT_MS || '60000', 10);
+// Longest silence tolerated between chunks once a stream is flowing
+const STREAM_IDLE_TIMEOUT_MS = parseInt(process.env.STREAM_IDLE_TIMEOUT_MS || '30000', 10);
+const MAX_RETRIES = parseInt(process.env.PROVIDER_MAX_RETRIES || '1', 10);
+// Time from the start of a request until some provider has to be answering;
+// keep it below the function's maximum duration on Vercel
+const REQUEST_DEADLINE_MS = parseInt(process.env.REQUEST_DEADLINE_MS || '50000', 10);
+// A retry or fallback is only worth starting with at least this much time left
+const MIN_ATTEMPT_MS = 5000;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 4000;
+
+interface ProviderRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+function buildProviderRequest(provider: string, body: any, apiKey: string): ProviderRequest | null {
+  switch (provider) {
+    case 'openai':
+    case 'deepseek':
+      return buildOpenAIRequest(body, apiKey, provider);
+    case 'anthropic':
+      return buildAnthropicRequest(body, apiKey);
+    case 'gemini':
+      return buildGeminiRequest(body, apiKey);
+    default:
+      return null;
+  }
+}
+
+async function readErrorBody(response: Response): Promise<any> {
+  const text = await response.text();
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+interface ProviderStream {
+  reader: ReadableStreamDefaultReader<Uint8Array>;
+  firstChunk: Uint8Array;
+}
+
+interface ProviderSuccess {
+  ok: true;
+  model: string;
+  provider: string;
+  data?: any;                      // Parsed body (non-streaming)
+  stream?: ProviderStream;         // Open stream (streaming)
+}
+
+interface ProviderFailure {
+  ok: false;
+  model: string;
+  provider: string;
+  statusCode: number;
+  body: any;
+}
+
+type AttemptResult =
+  | { ok: true; data?: any; stream?: ProviderStream }
+  | { ok: false; statusCode: number; body: any; timedOut?: boolean; retryAfterMs?: number; error?: string };
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Retry-After is either seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Backoff with full jitter. Returns null when the provider asks us to
+ * wait longer than we are willing to — better to try a fallback.
+ */
+function retryDelay(attempt: number, retryAfterMs?: number): number | null {
+  if (retryAfterMs !== undefined && retryAfterMs > RETRY_MAX_DELAY_MS) return null;
+  const jittered = Math.random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(Math.max(jittered, retryAfterMs ?? 0));
+}
+
+// Race a stream read against a timer (reader.read() has no timeout of its own)
+function readWithTimeout(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  ms: number,
+): Promise<ReadableStreamReadResult<Uint8Array>> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`No data from provider for ${ms}ms`)), ms);
+  });
+  return Promise.race([reader.read(), timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Send one request. Succeeds only once the provider has actually started
+ * answering: the full JSON body, or the first chunk of a stream.
+ */
+async function attemptProviderRequest(request: ProviderRequest, streaming: boolean, deadline: number): Promise<AttemptResult> {
+  const timeoutMs = Math.max(0, Math.min(PROVIDER_TIMEOUT_MS, deadline - Date.now()));
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(request.url, {
+      method: 'POST',
+      headers: request.headers,
+      body: request.body,
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      return {
+        ok: false,
+        statusCode: response.status,
+        body: await readErrorBody(response),
+        retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+      };
+    }
+
+    if (!streaming) {
+      return { ok: true, data: await response.json() };
+    }
+
+    const reader = response.body?.getReader();
+    if (!reader) {
+      return { ok: false, statusCode: 502, body: null, error: 'Empty stream' };
+    }
+    const first = await reader.read();
+    if (first.done) {
+      // Closed before sending anything — nothing was served, so retry or fall back
+      return { ok: false, statusCode: 502, body: null, error: 'Provider closed the stream without data' };
+    }
+    return { ok: true, stream: { reader, firstChunk: first.value } };
+  } catch (err: any) {
+    if (controller.signal.aborted) {
+      return { ok: false, statusCode: 504, body: null, timedOut: true, error: `Timed out after ${timeoutMs}ms` };
+    }
+    return { ok: false, statusCode: 502, body: null, error: err.message };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+interface FallbackContext {
+  requestId: string;
+  licenseKey: string;
+  plan: string;
+  body: any;             // Request body prepared for the primary model
+  clientMessages: any[]; // Messages as the client sent them (image_url parts)
+  imageCount: number;
+  deadline: number;      // Epoch ms by which a provider has to be answering
+}
+
+/**
+ * Provider request for one model of the fallback chain. The primary's
+ * body may already hold images in its provider's inline format, so
+ * fallbacks re-resolve images from the client's messages. Null when
+ * the candidate can't take the request (e.g. images on DeepSeek).
+ */
+export async function buildCandidateRequest(
+  ctx: Pick<FallbackContext, 'body' | 'clientMessages' | 'imageCount'>,
+  model: string,
+  candidate: string,
   provider: string,
-  statusCode: number,
-  rawBody: any,
-): NormalizedError {
-  const base: NormalizedError = {
-    message: 'AI provider returned an error',
-    type: 'api_error',
-    code: 'provider_error',
-    provider,
-    statusCode,
-  };
+  apiKey: string,
+): Promise<ProviderRequest | null> {
+  let body = { ...ctx.body, model: candidate };
+  if (candidate !== model && ctx.imageCount > 0) {
+    if (provider === 'deepseek') return null;
+    const resolved = await resolveImages(ctx.clientMessages, provider);
+    if ('error' in resolved) return null;
+    body = { ...body, messages: resolved.messages };
+  }
+  return buildProviderRequest(provider, body, apiKey);
+}
 
-  try {
-    switch (provider) {
-      case 'openai':
-      case 'deepseek': {
-        // OpenAI format: { error: { message, type, code } }
-        const err = rawBody?.error;
-        if (err) {
-          base.message = err.message || base.message;
-          base.type = err.type || base.type;
-          base.code = err.code || base.code;
-        }
-        break;
+/**
+ * Call the requested model, then its fallbacks, until one answers
+ * or a non-retryable error comes back.
+ */
+async function callProviderWithFallback(
+  ctx: FallbackContext,
+  model: string,
+): Promise<ProviderSuccess | ProviderFailure> {
+  const { requestId, licenseKey, plan, deadline } = ctx;
+  const chain = [model, ...getFallbackModels(model, plan)];
+  const streaming = !!ctx.body.stream;
+  let failure: ProviderFailure | null = null;
+
+  for (const candidate of chain) {
+    if (failure && deadline - Date.now() < MIN_ATTEMPT_MS) {
+      log.warn('No time left for a fallback', { requestId, licenseKey, requestedModel: model, fallbackModel: candidate });
+      break;
+    }
+
+    const provider = getProviderFromModel(candidate);
+    const apiKey = provider ? getApiKey(provider) : null;
+    if (!provider || !apiKey) continue;
+
+    const request = await buildCandidateRequest(ctx, model, candidate, provider, apiKey);
+    if (!request) continue;
+
+    if (!(await canCallProvider(provider))) {
+      log.warn('Skipping provider with open circuit', { requestId, licenseKey, provider, model: candidate });
+      failure = { ok: false, model: candidate, provider, statusCode: 503, body: null };
+      continue;
+    }
+
+    if (candidate !== model) {
+      log.warn('Falling back to another model', {
+        requestId,
+        licenseKey,
+        requestedModel: model,
+        fallbackModel: candidate,
+        previousStatus: failure?.statusCode,
+      });
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const outcome = await attemptProviderRequest(request, streaming, deadline);
+
+      if (outcome.ok) {
+        await recordProviderSuccess(provider);
+        return { ok: true, model: candidate, provider, data: outcome.data, stream: outcome.stream };
       }
 
-      case 'anthropic': {
-        // Anthropic format: { error: { type, message } } or { type, error: { type, message } }
-        const err = rawBody?.error;
-        if (err) {
-          base.message = err.message || base.message;
-          base.type = err.type || base.type;
-          base.code = err.type || base.code;
-        } else if (rawBody?.type === 'error') {
-          base.message = rawBody.message || base.message;
-          base.type = rawBody.error?.type || base.type;
-        }
-        break;
+      failure = { ok: false, model: candidate, provider, statusCode: outcome.statusCode, body: outcome.body };
+      if (outcome.error) {
+        log.error('Provider request failed', {
+          requestId,
+          licenseKey,
+          provider,
+          model: candidate,
+          attempt: attempt + 1,
+          error: outcome.error,
+        });
       }
 
-      case 'gemini': {
-        // Gemini format: { error: { code, message, status } } or [{ error: { ... } }]
-        const err = Array.isArray(rawBody) ? rawBody[0]?.error : rawBody?.error;
-        if (err) {
-          base.message = err.message || base.message;
-          base.code = err.status || String(err.code) || base.code;
-          base.type = 'gemini_error';
-        }
-        break;
+      let circuitOpen = false;
+      if (CIRCUIT_FAILURE_STATUSES.has(outcome.statusCode)) {
+        circuitOpen = (await recordProviderFailure(provider)) === 'open';
+        if (circuitOpen) log.warn('Provider circuit open', { requestId, provider });
+      } else {
+        // The provider answered, so it is up — even if it refused this request
+        await recordProviderSuccess(provider);
       }
-    }
 
-    // Map common HTTP status codes to user-friendly messages
-    if (statusCode === 401 || statusCode === 403) {
-      base.message = `Authentication error with ${provider}. Please contact support.`;
-      base.code = 'provider_auth_error';
-    } else if (statusCode === 429) {
-      base.message = `${provider} rate limit exceeded. Please try again in a moment.`;
-      base.code = 'provider_rate_limit';
-    } else if (statusCode === 500 || statusCode === 502 || statusCode === 503) {
-      base.message = `${provider} is temporarily unavailable. Please try again later.`;
-      base.code = 'provider_unavailable';
+      if (!RETRYABLE_STATUSES.has(outcome.statusCode)) return failure;
+
+      // A provider that just timed out is unlikely to be fast a second later
+      if (circuitOpen || outcome.timedOut || attempt >= MAX_RETRIES) break;
+      const delayMs = retryDelay(attempt, outcome.retryAfterMs);
+      if (delayMs === null || Date.now() + delayMs + MIN_ATTEMPT_MS > deadline) break;
+
+      log.info('Retrying provider request', {
+        requestId,
+        licenseKey,
+        provider,
+        model: candidate,
+        attempt: attempt + 2,
+        previousStatus: outcome.statusCode,
+        delayMs,
+      });
+      await sleep(delayMs);
     }
-  } catch {
-    // If normalization fails, return the base error
   }
 
-  return base;
+  return failure || {
+    ok: false,
+    model,
+    provider: getProviderFromModel(model) || 'unknown',
+    statusCode: 503,
+    body: null,
+  };
 }
 
 // ============================================================
-// Request Builders (OpenAI, Anthropic, Gemini)
+// Token Metering
 // ============================================================
 
-function buildOpenAIRequest(body: any, apiKey: string, provider: string) {
-  const payload: any = {
-    model: body.model,
-    messages: body.messages,
-  };
-  if (body.temperature !== undefined) payload.temperature = body.temperature;
-  if (body.max_tokens !== undefined) payload.max_tokens = body.max_tokens;
-  if (body.stream !== undefined) payload.stream = body.stream;
-  if (body.response_format !== undefined) payload.response_format = body.response_format;
-  if (body.top_p !== undefined) payload.top_p = body.top_p;
-  if (body.stream && body.stream_options) {
-    payload.stream_options = body.stream_options;
-  }
+interface MeteringContext {
+  requestId: string;
+  licenseKey: string;
+  accountKey: string;  // Shared org pool, or the license itself
+  plan: string;
+  provider: string;
+  model: string;
+}
 
-  const url = provider === 'deepseek' ? PROVIDER_URLS.deepseek : PROVIDER_URLS.openai;
+// Persist token usage and provider cost; a Redis failure must not turn
+// a served response into an error, so failures are only logged.
+async function meterTokenUsage(
+  ctx: MeteringContext,
+  usage: ChatCompletionUsage | null | undefined,
+): Promise<void> {
+  const { requestId, licenseKey, accountKey, plan, provider, model } = ctx;
+  if (!usage) {
+    log.warn('Provider returned no token usage', { requestId, licenseKey, provider, model });
+    return;
+  }
 
-  return {
-    url,
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify(payload),
+  const tokens = {
+    promptTokens: usage.prompt_tokens || 0,
+    completionTokens: usage.completion_tokens || 0,
   };
+  try {
+    await recordTokenUsage(licenseKey, model, tokens);
+    if (accountKey !== licenseKey) await recordTokenUsage(accountKey, model, tokens);
+    const costUsd = await recordRequestCost(licenseKey, plan, provider, model, tokens);
+    log.info('Usage recorded', { requestId, licenseKey, plan, provider, model, ...tokens, costUsd });
+  } catch (err: any) {
+    log.error('Failed to record token usage', { requestId, licenseKey, model, error: err.message });
+  }
 }
 
-function buildAnthropicRequest(body: any, apiKey: string) {
-  const systemMessage = body.messages.find((m: any) => m.role === 'system');
-  const nonSystemMessages = body.messages.filter((m: any) => m.role !== 'system');
-
-  const payload: any = {
-    model: body.model,
-    messages: nonSystemMessages,
-    max_tokens: body.max_tokens || 4096,
-  };
-  if (systemMessage) payload.system = systemMessage.content;
-  if (body.temperature !== undefined) payload.temperature = body.temperature;
-  if (body.stream !== undefined) payload.stream = body.stream;
-  if (body.top_p !== undefined) payload.top_p = body.top_p;
+// ============================================================
+// Task Accounting (reserve → commit | release)
+// ============================================================
+// A task unit is reserved before the provider is called so that
+// concurrent requests can't overshoot the monthly limit, then
+// committed once the provider has served the request, or released
+// if the provider failed or the client went away first.
+// Once the monthly taskLimit is used up, the task is paid with a
+// purchased credit (lib/credits.ts) instead. Tasks from a shared
+// org pool are counted on the pool and on the member's own counter.
 
-  return {
-    url: PROVIDER_URLS.anthropic,
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify(payload),
-  };
+interface TaskReservation {
+  tasksUsed: number;     // Count including this reservation
+  source: 'allowance' | 'credits';
+  commit(): Promise<void>;
+  release(reason: string): Promise<void>;
 }
 
-function buildGeminiRequest(body: any, apiKey: string) {
-  const systemMessage = body.messages.find((m: any) => m.role === 'system');
-  const nonSystemMessages = body.messages.filter((m: any) => m.role !== 'system');
-
-  const contents = nonSystemMessages.map((m: any) => ({
-    role: m.role === 'assistant' ? 'model' : 'user',
-    parts: [{ text: typeof m.content === 'string' ? m.content : JSON.stringify(m.content) }],
-  }));
+/**
+ * Reserve one task unit. Returns null if the monthly limit is
+ * reached and the license has no credits left.
+ */
+async function reserveTask(requestId: string, licenseKey: string, account: UsageAccount): Promise<TaskReservation | null> {
+  const { month, count: reserved } = await incrementTaskCount(account.key);
+  let count = reserved;
+  let source: TaskReservation['source'] = 'allowance';
 
-  const payload: any = {
-    contents,
-    generationConfig: {} as any,
-  };
-  if (systemMessage) {
-    payload.systemInstruction = { parts: [{ text: systemMessage.content }] };
+  if (account.taskLimit !== -1 && count > account.taskLimit) {
+    // Over the allowance: give the unit back and spend a credit instead
+    count = await decrementTaskCount(account.key, month);
+    const credits = await consumeCredit(account.key);
+    if (credits === null) return null;
+    source = 'credits';
+    log.info('Task paid with credit', { requestId, licenseKey, creditsLeft: credits });
   }
-  if (body.temperature !== undefined) payload.generationConfig.temperature = body.temperature;
-  if (body.max_tokens !== undefined) payload.generationConfig.maxOutputTokens = body.max_tokens;
-  if (body.top_p !== undefined) payload.generationConfig.topP = body.top_p;
-
-  const method = body.stream ? 'streamGenerateContent' : 'generateContent';
-  const url = `${PROVIDER_URLS.gemini}/models/${body.model}:${method}?key=${apiKey}`;
+  const pooled = account.key !== licenseKey;
+  if (pooled) await incrementTaskCount(licenseKey);
+  log.info('Task reserved', { requestId, licenseKey, tasksUsed: count, source, ...(pooled && { account: account.key }) });
 
+  let settled = false;
   return {
-    url,
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(payload),
+    tasksUsed: count,
+    source,
+    async commit() {
+      if (settled) return;
+      settled = true;
+      log.info('Task committed', { requestId, licenseKey });
+    },
+    async release(reason: string) {
+      if (settled) return;
+      settled = true;
+      try {
+        if (pooled) await decrementTaskCount(licenseKey, month);
+        if (source === 'credits') {
+          const credits = await refundCredit(account.key);
+          log.info('Task released', { requestId, licenseKey, reason, creditsLeft: credits });
+        } else {
+          const remaining = await decrementTaskCount(account.key, month);
+          log.info('Task released', { requestId, licenseKey, reason, tasksUsed: remaining });
+        }
+      } catch (err: any) {
+        log.error('Failed to release task', { requestId, licenseKey, reason, error: err.message });
+      }
+    },
   };
 }
 
@@ -229,12 +1685,14 @@ function buildGeminiRequest(body: any, apiKey: string) {
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   const requestId = generateRequestId();
+  const deadline = Date.now() + REQUEST_DEADLINE_MS;
+  let reservation: TaskReservation | null = null;
 
   // CORS preflight
   if (req.method === 'OPTIONS') {
     res.setHeader('Access-Control-Allow-Origin', '*');
     res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-License-Key, X-Feature');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-License-Key, X-Feature, X-Device-Id, X-Device-Name');
     return res.status(200).end();
   }
 
@@ -244,8 +1702,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
   try {
     // --- Extract license key ---
-    const licenseKey = extractLicenseKey(req);
-    if (!licenseKey) {
+    const rawKey = extractLicenseKey(req);
+    if (!rawKey) {
       log.warn('Request without license key', { requestId });
       return res.status(401).json({
         error: {
@@ -257,9 +1715,37 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     // --- Validate license ---
-    const license = await getLicense(licenseKey);
-    if (!license || license.status !== 'active') {
-      log.warn('Invalid license key used', { requestId, licenseKey });
+    let lookupKey: string | null;
+    let license: LicenseRecord | null;
+    let tokenAccount: UsageAccount | null = null;
+    if (isLicenseToken(rawKey)) {
+      // Signed token: license and limits come from the claims unless the token was revoked
+      const claims = verifyLicenseToken(rawKey);
+      const fromToken = claims && (!claims.did || claims.did === extractDeviceId(req))
+        ? await licenseFromToken(claims)
+        : null;
+      if (!fromToken) {
+        log.warn('Invalid license token used', { requestId, licenseKey: claims?.sub });
+        return res.status(401).json({
+          error: {
+            message: 'Invalid or expired license token. Please verify your license key again.',
+            type: 'authentication_error',
+            code: 'invalid_license_token',
+          },
+        });
+      }
+      ({ license, account: tokenAccount } = fromToken);
+      lookupKey = license.key;
+    } else {
+      // A key failing its checksum is a typo; don't look it up
+      lookupKey = isValidLicenseKey(rawKey) ? await resolveLicenseKey(rawKey) : null;
+      const stored = lookupKey ? await getLicense(lookupKey) : null;
+      // Org member keys take plan and status from the org's admin license
+      license = stored && await resolveOrgLicense(await resolveGracePeriod(stored));
+    }
+    // past_due licenses are still served during the payment grace period
+    if (!license || (license.status !== 'active' && license.status !== 'past_due')) {
+      log.warn('Invalid license key used', { requestId, licenseKey: lookupKey });
       return res.status(401).json({
         error: {
           message: 'Invalid or expired license key. Please check your key or renew your subscription.',
@@ -269,8 +1755,26 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       });
     }
 
-    // --- Rate limiting ---
+    const licenseKey = license.key;
     const plan = license.plan || 'free';
+
+    // --- Device activation (X-Device-Id; a token is already bound to its device) ---
+    const activation = tokenAccount ? null : await checkDeviceActivation(req, licenseKey, plan);
+    if (activation && !isDeviceAllowed(activation)) {
+      log.info('Device not activated', { requestId, licenseKey, status: activation.status, devicesUsed: activation.devicesUsed });
+      const limitReached = activation.status === 'limit_reached';
+      return res.status(limitReached ? 403 : 400).json({
+        error: {
+          message: limitReached
+            ? `This license is already active on ${activation.maxDevices} device(s). Deactivate one in your account to use it here.`
+            : 'Missing X-Device-Id header. Please update the extension.',
+          type: limitReached ? 'permission_error' : 'invalid_request_error',
+          code: limitReached ? 'device_limit_reached' : 'device_id_required',
+        },
+      });
+    }
+
+    // --- Rate limiting ---
     const rateResult = await checkRateLimit(licenseKey, plan);
     if (!rateResult.allowed) {
       log.warn('Rate limit exceeded', {
@@ -321,17 +1825,40 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     // --- Check monthly task limit ---
     const planConfig = PLANS[plan] || PLANS.free;
-    if (planConfig.taskLimit !== -1 && license.tasksUsedThisMonth >= planConfig.taskLimit) {
-      log.info('Monthly task limit reached', { requestId, licenseKey, plan, used: license.tasksUsedThisMonth, limit: planConfig.taskLimit });
+    const account = tokenAccount ?? await getUsageAccount(license);
+    const tasksUsed = await getAccountTaskCount(account, license);
+    if (
+      account.taskLimit !== -1 &&
+      tasksUsed >= account.taskLimit &&
+      await getCreditBalance(account.key) <= 0
+    ) {
+      log.info('Monthly task limit reached', { requestId, licenseKey, plan, used: tasksUsed, limit: account.taskLimit });
       return res.status(429).json({
         error: {
-          message: `Monthly task limit reached (${planConfig.taskLimit}). Please upgrade your plan.`,
+          message: `Monthly task limit reached (${account.taskLimit}). Please upgrade your plan or buy a credit pack.`,
           type: 'rate_limit_error',
           code: 'task_limit_reached',
         },
       });
     }
 
+    // --- Check monthly token budget ---
+    const tier = getModelTier(model);
+    const tokenBudget = account.tokenBudgets[tier];
+    if (tokenBudget !== -1) {
+      const tokensUsed = (await getMonthlyTokenUsage(account.key))[tier];
+      if (tokensUsed >= tokenBudget) {
+        log.info('Monthly token budget reached', { requestId, licenseKey, plan, tier, used: tokensUsed, budget: tokenBudget });
+        return res.status(429).json({
+          error: {
+            message: `Monthly token budget for ${tier} models reached (${tokenBudget} tokens). Please upgrade your plan.`,
+            type: 'rate_limit_error',
+            code: 'token_budget_reached',
+          },
+        });
+      }
+    }
+
     // --- Determine provider ---
     const provider = getProviderFromModel(model);
     if (!provider) {
@@ -357,8 +1884,63 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       });
     }
 
-    // --- Increment task counter ---
-    await incrementTaskCount(licenseKey);
+    // --- Image inputs ---
+    let requestBody = req.body;
+    const imageCount = countImageParts(messages);
+    if (imageCount > 0) {
+      if (!planConfig.vision) {
+        log.info('Vision not allowed for plan', { requestId, licenseKey, plan, imageCount });
+        return res.status(403).json({
+          error: {
+            message: `Image inputs are not available on your ${planConfig.name} plan. Please upgrade.`,
+            type: 'permission_error',
+            code: 'vision_not_allowed',
+          },
+        });
+      }
+      if (provider === 'deepseek') {
+        return res.status(400).json({
+          error: {
+            message: `Model "${model}" does not support image inputs.`,
+            type: 'invalid_request_error',
+            code: 'images_not_supported',
+          },
+        });
+      }
+
+      const resolved = await resolveImages(messages, provider);
+      if ('error' in resolved) {
+        log.info('Invalid image input', { requestId, licenseKey, provider, error: resolved.error });
+        return res.status(400).json({
+          error: {
+            message: resolved.error,
+            type: 'invalid_request_error',
+            code: 'invalid_image',
+          },
+        });
+      }
+      requestBody = { ...req.body, messages: resolved.messages };
+    }
+
+    // --- Reserve a task unit (committed or released below) ---
+    reservation = await reserveTask(requestId, licenseKey, account);
+
+    // The check above used a snapshot; the reservation is authoritative
+    if (!reservation) {
+      log.info('Monthly task limit reached', { requestId, licenseKey, plan, limit: account.taskLimit });
+      return res.status(429).json({
+        error: {
+          message: `Monthly task limit reached (${account.taskLimit}). Please upgrade your plan or buy a credit pack.`,
+          type: 'rate_limit_error',
+          code: 'task_limit_reached',
+        },
+      });
+    }
+
+    let clientAborted = false;
+    res.on('close', () => {
+      if (!res.writableEnded) clientAborted = true;
+    });
 
     log.info('Proxying AI request', {
       requestId,
@@ -367,127 +1949,122 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       model,
       streaming: !!stream,
       messageCount: messages.length,
+      imageCount,
     });
 
-    // --- Build provider request ---
-    let providerRequest: { url: string; headers: Record<string, string>; body: string };
-
-    switch (provider) {
-      case 'openai':
-      case 'deepseek':
-        providerRequest = buildOpenAIRequest(req.body, apiKey, provider);
-        break;
-      case 'anthropic':
-        providerRequest = buildAnthropicRequest(req.body, apiKey);
-        break;
-      case 'gemini':
-        providerRequest = buildGeminiRequest(req.body, apiKey);
-        break;
-      default:
-        return res.status(400).json({ error: { message: 'Invalid provider', type: 'invalid_request_error' } });
-    }
+    // --- Call provider (falls back on retryable errors) ---
+    const result = await callProviderWithFallback(
+      { requestId, licenseKey, plan, body: requestBody, clientMessages: messages, imageCount, deadline },
+      model,
+    );
 
-    // --- Streaming response ---
-    if (stream) {
-      const providerRes = await fetch(providerRequest.url, {
-        method: 'POST',
-        headers: providerRequest.headers,
-        body: providerRequest.body,
+    if (!result.ok) {
+      await reservation.release('provider_error');
+      const normalized = normalizeProviderError(result.provider, result.statusCode, result.body);
+      log.error(stream ? 'Provider stream error' : 'Provider error', {
+        requestId,
+        licenseKey,
+        provider: result.provider,
+        model: result.model,
+        requestedModel: model,
+        statusCode: result.statusCode,
+        errorCode: normalized.code,
+        errorMessage: normalized.message,
       });
 
-      if (!providerRes.ok) {
-        let errorBody: any;
-        try {
-          errorBody = await providerRes.json();
-        } catch {
-          errorBody = await providerRes.text();
-        }
+      return res.status(result.statusCode).json({
+        error: {
+          message: normalized.message,
+          type: normalized.type,
+          code: normalized.code,
+        },
+      });
+    }
 
-        const normalized = normalizeProviderError(provider, providerRes.status, errorBody);
-        log.error('Provider stream error', {
-          requestId,
-          licenseKey,
-          provider,
-          model,
-          statusCode: providerRes.status,
-          errorCode: normalized.code,
-          errorMessage: normalized.message,
-        });
+    const usedModel = result.model;
+    const usedProvider = result.provider;
+    const metering = { requestId, licenseKey, accountKey: account.key, plan, provider: usedProvider, model: usedModel };
 
-        return res.status(providerRes.status).json({
-          error: {
-            message: normalized.message,
-            type: normalized.type,
-            code: normalized.code,
-          },
-        });
-      }
+    res.setHeader('X-Model-Used', usedModel);
 
+    // --- Streaming response ---
+    if (stream) {
       res.setHeader('Content-Type', 'text/event-stream');
       res.setHeader('Cache-Control', 'no-cache');
       res.setHeader('Connection', 'keep-alive');
       res.setHeader('Access-Control-Allow-Origin', '*');
       res.setHeader('X-Request-Id', requestId);
 
-      const reader = providerRes.body?.getReader();
-      if (!reader) {
-        return res.status(500).json({ error: { message: 'Failed to read stream', type: 'server_error' } });
-      }
+      const { reader, firstChunk } = result.stream!;
 
+      // Stop pulling from the provider once the client has gone away
+      res.on('close', () => {
+        if (clientAborted) reader.cancel().catch(() => {});
+      });
+
+      const includeUsage = !!req.body.stream_options?.include_usage;
+      const transcoder = createStreamTranscoder(usedProvider, usedModel, requestId, includeUsage);
       const decoder = new TextDecoder();
       try {
-        while (true) {
-          const { done, value } = await reader.read();
+        for (const frame of transcoder.push(decoder.decode(firstChunk, { stream: true }))) res.write(frame);
+        while (!clientAborted) {
+          const { done, value } = await readWithTimeout(reader, STREAM_IDLE_TIMEOUT_MS);
           if (done) break;
           const chunk = decoder.decode(value, { stream: true });
-          res.write(chunk);
+          for (const frame of transcoder.push(chunk)) res.write(frame);
+        }
+        if (!clientAborted) {
+          for (const frame of transcoder.end()) res.write(frame);
         }
       } catch (streamError: any) {
-        log.error('Stream interrupted', { requestId, licenseKey, provider, error: streamError.message });
+        log.error('Stream interrupted', { requestId, licenseKey, provider: usedProvider, error: streamError.message });
+        reader.cancel().catch(() => {});
+        for (const frame of transcoder.error('The AI provider stream was interrupted. Please try again.')) {
+          res.write(frame);
+        }
       } finally {
+        await meterTokenUsage(metering, transcoder.usage());
+        if (clientAborted) {
+          await reservation.release('client_aborted');
+        } else if (transcoder.failed()) {
+          await reservation.release('stream_failed');
+        } else {
+          await reservation.commit();
+        }
         res.end();
       }
       return;
     }
 
     // --- Non-streaming response ---
-    const providerRes = await fetch(providerRequest.url, {
-      method: 'POST',
-      headers: providerRequest.headers,
-      body: providerRequest.body,
-    });
+    const responseData = result.data;
 
-    const responseData = await providerRes.json();
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('X-Request-Id', requestId);
 
-    if (!providerRes.ok) {
-      const normalized = normalizeProviderError(provider, providerRes.status, responseData);
-      log.error('Provider error', {
-        requestId,
-        licenseKey,
-        provider,
-        model,
-        statusCode: providerRes.status,
-        errorCode: normalized.code,
-        errorMessage: normalized.message,
-      });
+    const completion = normalizeProviderResponse(usedProvider, responseData, usedModel, requestId);
+    await meterTokenUsage(metering, completion.usage);
 
-      return res.status(providerRes.status).json({
-        error: {
-          message: normalized.message,
-          type: normalized.type,
-          code: normalized.code,
-        },
-      });
+    if (clientAborted) {
+      await reservation.release('client_aborted');
+      return;
     }
+    await reservation.commit();
 
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('X-Request-Id', requestId);
-
-    log.info('Request completed', { requestId, licenseKey, provider, model });
-    return res.status(200).json(responseData);
+    log.info('Request completed', {
+      requestId,
+      licenseKey,
+      provider: usedProvider,
+      model: usedModel,
+      requestedModel: model,
+      promptTokens: completion.usage?.prompt_tokens,
+      completionTokens: completion.usage?.completion_tokens,
+    });
+    return res.status(200).json(completion);
 
   } catch (error: any) {
     log.error('Unexpected error', { requestId, error: error.message, stack: error.stack?.slice(0, 500) });
+    await reservation?.release('internal_error');
     return res.status(500).json({
       error: {
         message: 'AI proxy internal error. Please try again.',
@@ -0,0 +1,96 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { extractLookupKey } from '../lib/auth';
+import { getLicense } from '../lib/db';
+import { getUsageAccount, resolveOrgLicense } from '../lib/orgs';
+import { CREDIT_PACKS } from '../lib/config';
+import { AUTOMATIC_TAX, CREDIT_PACK_PRICES, getStripe } from '../lib/stripe';
+import { createLogger, generateRequestId } from '../lib/logger';
+
+const log = createLogger('buy-credits');
+
+// ============================================================
+// BUY CREDITS — Помощник
+// ============================================================
+// POST /api/buy-credits
+//   Authorization: Bearer <license-key>  OR  X-License-Key
+//   Body: { pack: 'small' | 'medium' | 'large' }
+//
+// Creates a one-time Stripe Checkout session for a credit pack.
+// The credits are added by the webhook (checkout.session.completed)
+// once the payment has gone through — to the org pool if the key
+// belongs to an organization with a shared pool.
+// ============================================================
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  // CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-License-Key');
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', '*');
+
+  try {
+    const licenseKey = await extractLookupKey(req);
+    if (!licenseKey) {
+      return res.status(401).json({ error: 'Missing or invalid license key' });
+    }
+
+    const stored = await getLicense(licenseKey);
+    const license = stored && await resolveOrgLicense(stored);
+    if (!license) {
+      return res.status(404).json({ error: 'License key not found' });
+    }
+    if (license.status !== 'active' && license.status !== 'past_due') {
+      return res.status(403).json({ error: `License is ${license.status}` });
+    }
+
+    const { pack } = req.body || {};
+    if (!pack || !CREDIT_PACKS[pack]) {
+      return res.status(400).json({ error: `Invalid pack. Choose: ${Object.keys(CREDIT_PACKS).join(', ')}` });
+    }
+
+    const priceId = CREDIT_PACK_PRICES[pack];
+    if (!priceId) {
+      log.error('Price not configured for credit pack', { requestId, pack });
+      return res.status(503).json({ error: `Price for credit pack "${pack}" is not configured` });
+    }
+
+    const credits = CREDIT_PACKS[pack].credits;
+    const account = await getUsageAccount(license);
+    const stripe = getStripe();
+    const session = await stripe.checkout.sessions.create({
+      mode: 'payment',
+      payment_method_types: ['card'],
+      // Reuse the subscription's customer so payments show up in one place
+      ...(license.stripeCustomerId
+        ? { customer: license.stripeCustomerId }
+        : { customer_email: license.email, customer_creation: 'always' as const }),
+      line_items: [{ price: priceId, quantity: 1 }],
+      allow_promotion_codes: true,
+      automatic_tax: { enabled: AUTOMATIC_TAX },
+      tax_id_collection: { enabled: AUTOMATIC_TAX },
+      ...(AUTOMATIC_TAX && { billing_address_collection: 'required' as const }),
+      ...(AUTOMATIC_TAX && license.stripeCustomerId && { customer_update: { address: 'auto' as const, name: 'auto' as const } }),
+      invoice_creation: { enabled: true },
+      success_url: process.env.CREDITS_SUCCESS_URL || 'https://pomoshnik.tech/account?credits=success',
+      cancel_url: process.env.CANCEL_URL || 'https://pomoshnik.tech/#pricing',
+      metadata: { type: 'credits', licenseKey, account: account.key, pack, credits: String(credits) },
+    });
+
+    log.info('Credit checkout session created', { requestId, licenseKey, pack, credits, sessionId: session.id });
+    return res.status(200).json({ url: session.url, sessionId: session.id });
+
+  } catch (error: any) {
+    log.error('Buy credits error', { requestId, error: error.message });
+    return res.status(500).json({ error: 'Failed to create checkout session' });
+  }
+}
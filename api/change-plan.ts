@@ -0,0 +1,203 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type Stripe from 'stripe';
+import { extractLookupKey } from '../lib/auth';
+import { getLicense, updateLicense } from '../lib/db';
+import { PLANS, comparePlans } from '../lib/config';
+import { DEFAULT_CURRENCY, PRICE_CATALOG, getPriceId, getPriceVariant, getStripe } from '../lib/stripe';
+import { idOf } from '../lib/subscriptions';
+import { createLogger, generateRequestId } from '../lib/logger';
+
+const log = createLogger('change-plan');
+
+// ============================================================
+// CHANGE PLAN — Помощник
+// ============================================================
+// POST /api/change-plan
+//   Authorization: Bearer <license-key>  OR  X-License-Key
+//   Body: { plan: 'starter' | 'pro' | 'business', preview?: boolean }
+//
+// Switches the existing Stripe subscription to another plan:
+//   upgrade   — immediately, the prorated difference is invoiced now
+//   downgrade — at the end of the current billing period
+// The billing interval and currency of the subscription are kept.
+// With preview: true nothing changes; the response shows the cost.
+// Amounts are in the currency's minor units (cents), like Stripe.
+// ============================================================
+
+interface PlanChange {
+  currentPlan: string;
+  newPlan: string;
+  change: 'upgrade' | 'downgrade';
+  effective: 'immediate' | 'period_end';
+  effectiveAt: string;
+  currency: string;
+  amountDueNow: number;        // Prorated charge for an upgrade, 0 for a downgrade
+  nextInvoiceAmount: number;   // Recurring price of the new plan
+  applied: boolean;
+}
+
+// Release a pending schedule (e.g. an earlier downgrade) so it can't override this change
+async function releaseSchedule(stripe: Stripe, subscription: Stripe.Subscription): Promise<void> {
+  const scheduleId = idOf(subscription.schedule);
+  if (scheduleId) await stripe.subscriptionSchedules.release(scheduleId);
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  // CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-License-Key');
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', '*');
+
+  try {
+    const licenseKey = await extractLookupKey(req);
+    if (!licenseKey) {
+      return res.status(401).json({ error: 'Missing or invalid license key' });
+    }
+
+    const license = await getLicense(licenseKey);
+    if (!license) {
+      return res.status(404).json({ error: 'License key not found' });
+    }
+    if (license.status !== 'active') {
+      return res.status(403).json({ error: `License is ${license.status}` });
+    }
+    if (!license.stripeSubscriptionId) {
+      return res.status(400).json({ error: 'No Stripe subscription for this license. Use /api/checkout to subscribe.' });
+    }
+
+    const { plan, preview } = req.body || {};
+    if (!plan || !(plan in PRICE_CATALOG)) {
+      return res.status(400).json({ error: 'Invalid plan. Choose: starter, pro, business' });
+    }
+    if (plan === license.plan && !license.scheduledPlan) {
+      return res.status(400).json({ error: `License is already on the ${PLANS[plan].name} plan` });
+    }
+
+    const stripe = getStripe();
+    const subscription = await stripe.subscriptions.retrieve(license.stripeSubscriptionId);
+
+    // Staying on the current plan cancels a scheduled downgrade
+    if (plan === license.plan) {
+      if (!preview) {
+        await releaseSchedule(stripe, subscription);
+        await updateLicense(licenseKey, { scheduledPlan: null, scheduledPlanAt: null });
+        log.info('Scheduled downgrade cancelled', { requestId, licenseKey, plan, scheduledPlan: license.scheduledPlan });
+      }
+      return res.status(200).json({ currentPlan: plan, newPlan: plan, scheduledPlanCancelled: license.scheduledPlan, applied: !preview });
+    }
+
+    const item = subscription.items.data[0];
+    if (!item || (subscription.status !== 'active' && subscription.status !== 'trialing')) {
+      return res.status(409).json({ error: `Subscription is ${subscription.status} and can't be changed` });
+    }
+
+    const current = getPriceVariant(item.price.id);
+    const interval = current?.interval || 'month';
+    const currency = current?.currency || DEFAULT_CURRENCY;
+    const newPriceId = getPriceId(plan, interval, currency);
+    if (!newPriceId) {
+      log.error('Price not configured for plan', { requestId, plan, interval, currency });
+      return res.status(503).json({ error: `Price for plan "${plan}" (${interval}, ${currency.toUpperCase()}) is not configured` });
+    }
+
+    const newPrice = await stripe.prices.retrieve(newPriceId);
+    const quantity = item.quantity || 1;
+    const isUpgrade = comparePlans(plan, license.plan) > 0;
+    const periodEnd = new Date(subscription.current_period_end * 1000).toISOString();
+
+    const result: PlanChange = {
+      currentPlan: license.plan,
+      newPlan: plan,
+      change: isUpgrade ? 'upgrade' : 'downgrade',
+      effective: isUpgrade ? 'immediate' : 'period_end',
+      effectiveAt: isUpgrade ? new Date().toISOString() : periodEnd,
+      currency: newPrice.currency,
+      amountDueNow: 0,
+      nextInvoiceAmount: (newPrice.unit_amount || 0) * quantity,
+      applied: false,
+    };
+
+    // --- Upgrade: swap the price now and invoice the prorated difference ---
+    if (isUpgrade) {
+      const prorationDate = Math.floor(Date.now() / 1000);
+      const upcoming = await stripe.invoices.retrieveUpcoming({
+        customer: idOf(subscription.customer) || undefined,
+        subscription: subscription.id,
+        subscription_items: [{ id: item.id, price: newPriceId }],
+        subscription_proration_behavior: 'always_invoice',
+        subscription_proration_date: prorationDate,
+      });
+      result.amountDueNow = upcoming.lines.data
+        .filter(line => line.proration)
+        .reduce((sum, line) => sum + line.amount, 0);
+
+      if (preview) {
+        return res.status(200).json(result);
+      }
+
+      await releaseSchedule(stripe, subscription);
+      const updated = await stripe.subscriptions.update(subscription.id, {
+        items: [{ id: item.id, price: newPriceId }],
+        proration_behavior: 'always_invoice',
+        proration_date: prorationDate,
+        // Keep the old plan if the prorated invoice can't be paid
+        payment_behavior: 'pending_if_incomplete',
+      });
+
+      if (updated.pending_update) {
+        log.warn('Plan upgrade awaiting payment', { requestId, licenseKey, from: license.plan, to: plan });
+        return res.status(402).json({
+          error: 'Payment for the upgrade failed. Please update your payment method and try again.',
+        });
+      }
+
+      await updateLicense(licenseKey, { plan, scheduledPlan: null, scheduledPlanAt: null });
+      log.info('Plan upgraded', { requestId, licenseKey, from: license.plan, to: plan, amountDueNow: result.amountDueNow });
+      return res.status(200).json({ ...result, applied: true });
+    }
+
+    // --- Downgrade: schedule the new price for the next billing period ---
+    if (preview) {
+      return res.status(200).json(result);
+    }
+
+    await releaseSchedule(stripe, subscription);
+    const schedule = await stripe.subscriptionSchedules.create({ from_subscription: subscription.id });
+    const currentPhase = schedule.phases[0];
+    await stripe.subscriptionSchedules.update(schedule.id, {
+      end_behavior: 'release',
+      phases: [
+        {
+          items: [{ price: item.price.id, quantity }],
+          start_date: currentPhase.start_date,
+          end_date: currentPhase.end_date,
+        },
+        {
+          items: [{ price: newPriceId, quantity }],
+          iterations: 1,
+          proration_behavior: 'none',
+        },
+      ],
+    });
+
+    // The plan itself changes when Stripe switches the price (customer.subscription.updated)
+    await updateLicense(licenseKey, { scheduledPlan: plan, scheduledPlanAt: periodEnd });
+    log.info('Plan downgrade scheduled', { requestId, licenseKey, from: license.plan, to: plan, effectiveAt: periodEnd });
+    return res.status(200).json({ ...result, applied: true });
+
+  } catch (error: any) {
+    log.error('Change plan error', { requestId, error: error.message });
+    return res.status(500).json({ error: 'Failed to change plan' });
+  }
+}
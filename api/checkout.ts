@@ -1,22 +1,39 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { getStripe } from '../lib/stripe';
+import {
+  AUTOMATIC_TAX,
+  BILLING_CURRENCIES,
+  BILLING_INTERVALS,
+  BillingCurrency,
+  BillingInterval,
+  DEFAULT_CURRENCY,
+  PRICE_CATALOG,
+  getPriceId,
+  getStripe,
+} from '../lib/stripe';
 import { createLogger, generateRequestId } from '../lib/logger';
 
 const log = createLogger('checkout');
 
+const MAX_SEATS = 500;
+
 // ============================================================
 // STRIPE CHECKOUT — Помощник
 // ============================================================
 // POST /api/checkout
-// Body: { email: string, plan: 'starter' | 'pro' | 'business' }
+// Body: {
+//   email: string,
+//   plan: 'starter' | 'pro' | 'business',
+//   interval?: 'month' | 'year',   (default: month)
+//   currency?: 'eur' | 'bgn',      (default: STRIPE_DEFAULT_CURRENCY)
+//   organization?: string,         company name — creates an organization
+//   seats?: number,                seats for the organization (default 1)
+// }
+//
+// Promotion codes are accepted on the Stripe page. With
+// STRIPE_AUTOMATIC_TAX=true, VAT is calculated by Stripe Tax and
+// business customers can enter a VAT ID.
 // ============================================================
 
-const PRICE_MAP: Record<string, string | undefined> = {
-  starter: process.env.STRIPE_PRICE_STARTER,
-  pro: process.env.STRIPE_PRICE_PRO,
-  business: process.env.STRIPE_PRICE_BUSINESS,
-};
-
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   const requestId = generateRequestId();
 
@@ -33,39 +50,60 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    const { email, plan } = req.body;
+    const { email, plan, organization } = req.body;
+    const seats = organization ? parseInt(req.body.seats ?? '1', 10) : 1;
+    const interval: BillingInterval = req.body.interval || 'month';
+    const currency = String(req.body.currency || DEFAULT_CURRENCY).toLowerCase() as BillingCurrency;
 
     if (!email) {
       return res.status(400).json({ error: 'Missing email' });
     }
-    if (!plan || !PRICE_MAP[plan]) {
+    if (!plan || !(plan in PRICE_CATALOG)) {
       return res.status(400).json({ error: 'Invalid plan. Choose: starter, pro, business' });
     }
+    if (!BILLING_INTERVALS.includes(interval)) {
+      return res.status(400).json({ error: 'Invalid interval. Choose: month, year' });
+    }
+    if (!BILLING_CURRENCIES.includes(currency)) {
+      return res.status(400).json({ error: 'Invalid currency. Choose: eur, bgn' });
+    }
+    if (organization !== undefined && (typeof organization !== 'string' || !organization.trim())) {
+      return res.status(400).json({ error: 'Invalid organization name' });
+    }
+    if (!Number.isInteger(seats) || seats < 1 || seats > MAX_SEATS) {
+      return res.status(400).json({ error: `Invalid seats. Use 1–${MAX_SEATS}` });
+    }
 
-    const priceId = PRICE_MAP[plan];
+    const priceId = getPriceId(plan, interval, currency);
     if (!priceId) {
-      log.error('Price not configured for plan', { requestId, plan });
-      return res.status(503).json({ error: `Price for plan "${plan}" is not configured` });
+      log.error('Price not configured for plan', { requestId, plan, interval, currency });
+      return res.status(503).json({ error: `Price for plan "${plan}" (${interval}, ${currency.toUpperCase()}) is not configured` });
     }
 
     const stripe = getStripe();
 
-    log.info('Creating checkout session', { requestId, email, plan });
+    log.info('Creating checkout session', { requestId, email, plan, interval, currency });
 
     const TRIAL_DAYS = parseInt(process.env.TRIAL_DAYS || '30', 10);
+    const orgMetadata: Record<string, string> = organization ? { organization: organization.trim(), seats: String(seats) } : {};
 
     const session = await stripe.checkout.sessions.create({
       mode: 'subscription',
       payment_method_types: ['card'],
       customer_email: email,
-      line_items: [{ price: priceId, quantity: 1 }],
+      line_items: [{ price: priceId, quantity: seats }],
+      allow_promotion_codes: true,
+      automatic_tax: { enabled: AUTOMATIC_TAX },
+      tax_id_collection: { enabled: AUTOMATIC_TAX },
+      // Stripe Tax needs the address to pick the VAT rate
+      ...(AUTOMATIC_TAX && { billing_address_collection: 'required' as const }),
       subscription_data: {
         trial_period_days: TRIAL_DAYS,
-        metadata: { plan, email },
+        metadata: { plan, email, interval, currency, ...orgMetadata },
       },
       success_url: process.env.SUCCESS_URL || 'https://pomoshnik.tech/success?session_id={CHECKOUT_SESSION_ID}',
       cancel_url: process.env.CANCEL_URL || 'https://pomoshnik.tech/#pricing',
-      metadata: { plan, email },
+      metadata: { plan, email, interval, currency, ...orgMetadata },
     });
 
     log.info('Trial period configured', { requestId, trialDays: TRIAL_DAYS });
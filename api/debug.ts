@@ -1,4 +1,5 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { PRICE_CATALOG } from '../lib/stripe';
 
 // ============================================================
 // DEBUG ENDPOINT — Помощник
@@ -26,11 +27,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       gemini: !!process.env.GEMINI_API_KEY,
       deepseek: !!process.env.DEEPSEEK_API_KEY,
       vercelKv: !!process.env.KV_REST_API_URL,
+      licenseKeySecret: !!process.env.LICENSE_KEY_SECRET,
+      licenseTokens: !!process.env.LICENSE_TOKEN_PRIVATE_KEY,
     },
-    prices: {
-      starter: process.env.STRIPE_PRICE_STARTER ? 'configured' : 'missing',
-      pro: process.env.STRIPE_PRICE_PRO ? 'configured' : 'missing',
-      business: process.env.STRIPE_PRICE_BUSINESS ? 'configured' : 'missing',
-    },
+    // e.g. { pro: { month: { eur: 'configured', bgn: 'missing' }, year: { ... } } }
+    prices: Object.fromEntries(Object.entries(PRICE_CATALOG).map(([plan, intervals]) => [
+      plan,
+      Object.fromEntries(Object.entries(intervals).map(([interval, currencies]) => [
+        interval,
+        Object.fromEntries(Object.entries(currencies).map(([currency, id]) => [currency, id ? 'configured' : 'missing'])),
+      ])),
+    ])),
   });
 }
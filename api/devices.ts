@@ -0,0 +1,98 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { extractLookupKey } from '../lib/auth';
+import { getLicense } from '../lib/db';
+import { resolveOrgLicense } from '../lib/orgs';
+import {
+  MAX_DEACTIVATIONS_PER_MONTH,
+  deactivateDevice,
+  extractDeviceId,
+  getMaxDevices,
+  listDevices,
+  useDeactivation,
+} from '../lib/devices';
+import { createLogger, generateRequestId } from '../lib/logger';
+
+const log = createLogger('devices');
+
+// ============================================================
+// DEVICE ACTIVATIONS — Помощник
+// ============================================================
+// Authorization: Bearer <license-key>  OR  X-License-Key
+//
+// GET  /api/devices
+//   — Devices this license is active on, most recently used first
+//
+// POST /api/devices
+//   Body: { action: 'deactivate', deviceId: string }
+//   — Frees the device's slot. Limited to MAX_DEVICE_DEACTIVATIONS
+//     per month so a shared key can't rotate through devices.
+// ============================================================
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  // CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-License-Key, X-Device-Id');
+    return res.status(200).end();
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', '*');
+
+  try {
+    const licenseKey = await extractLookupKey(req);
+    if (!licenseKey) {
+      return res.status(401).json({ error: 'Missing or invalid license key' });
+    }
+
+    const stored = await getLicense(licenseKey);
+    const license = stored && await resolveOrgLicense(stored);
+    if (!license) {
+      return res.status(404).json({ error: 'License key not found' });
+    }
+
+    // --- GET: List devices ---
+    if (req.method === 'GET') {
+      const currentDeviceId = extractDeviceId(req);
+      const devices = await listDevices(licenseKey);
+      return res.status(200).json({
+        maxDevices: getMaxDevices(license.plan),
+        devices: devices.map(device => ({ ...device, current: device.deviceId === currentDeviceId })),
+      });
+    }
+
+    if (req.method !== 'POST') {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { action, deviceId } = req.body || {};
+    if (action !== 'deactivate') {
+      return res.status(400).json({ error: 'Unknown action. Use: deactivate' });
+    }
+    if (!deviceId || typeof deviceId !== 'string') {
+      return res.status(400).json({ error: 'Missing deviceId' });
+    }
+
+    const devices = await listDevices(licenseKey);
+    if (!devices.some(device => device.deviceId === deviceId)) {
+      return res.status(404).json({ error: 'Device is not active on this license' });
+    }
+
+    if (!(await useDeactivation(licenseKey))) {
+      log.warn('Device deactivation limit reached', { requestId, licenseKey });
+      return res.status(429).json({
+        error: `You can deactivate up to ${MAX_DEACTIVATIONS_PER_MONTH} devices per month. Contact support if you need more.`,
+      });
+    }
+
+    await deactivateDevice(licenseKey, deviceId);
+    log.info('Device deactivated', { requestId, licenseKey, devicesLeft: devices.length - 1 });
+    return res.status(200).json({ deviceId, deactivated: true });
+
+  } catch (error: any) {
+    log.error('Devices error', { requestId, error: error.message });
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
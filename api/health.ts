@@ -1,11 +1,13 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { redisCommand } from '../lib/db';
+import { CircuitStatus, getCircuitStatus } from '../lib/circuit';
 
 // ============================================================
 // HEALTH CHECK — Помощник
 // ============================================================
 // GET /api/health
-// Returns system health status including Redis connectivity.
+// Returns system health status including Redis connectivity
+// and the circuit breaker state of each configured AI provider.
 // ============================================================
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
@@ -16,7 +18,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
   res.setHeader('Access-Control-Allow-Origin', '*');
 
-  const checks: Record<string, { status: string; latencyMs?: number; error?: string }> = {};
+  const checks: Record<string, {
+    status: string;
+    latencyMs?: number;
+    error?: string;
+    circuits?: Record<string, CircuitStatus>;
+  }> = {};
 
   // --- Redis check ---
   try {
@@ -45,6 +52,26 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     ...(missingVars.length > 0 && { error: `Missing: ${missingVars.join(', ')}` }),
   };
 
+  // --- AI provider circuits ---
+  const providerKeys: Record<string, string> = {
+    openai: 'OPENAI_API_KEY',
+    anthropic: 'ANTHROPIC_API_KEY',
+    gemini: 'GEMINI_API_KEY',
+    deepseek: 'DEEPSEEK_API_KEY',
+  };
+  const circuits: Record<string, CircuitStatus> = {};
+  for (const [provider, envVar] of Object.entries(providerKeys)) {
+    if (process.env[envVar]) circuits[provider] = await getCircuitStatus(provider);
+  }
+  const states = Object.values(circuits).map(c => c.state);
+  checks.providers = {
+    // Unhealthy only when no configured provider can take requests
+    status: states.length > 0 && states.every(s => s === 'open')
+      ? 'unhealthy'
+      : states.every(s => s === 'closed') ? 'healthy' : 'degraded',
+    circuits,
+  };
+
   // --- Overall status ---
   const allHealthy = Object.values(checks).every(c => c.status === 'healthy');
   const anyUnhealthy = Object.values(checks).some(c => c.status === 'unhealthy');
@@ -0,0 +1,47 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getTokenJwks } from '../lib/tokens';
+import { createLogger, generateRequestId } from '../lib/logger';
+
+const log = createLogger('jwks');
+
+// ============================================================
+// LICENSE TOKEN PUBLIC KEY — Помощник
+// ============================================================
+// GET /api/jwks  (also rewritten from /.well-known/jwks.json)
+//
+// The Ed25519 key that signs license tokens from
+// /api/verify?token=true, as a JWK set, so the extension can check
+// a token's signature and expiry without calling the API.
+// 404 when token signing isn't configured.
+// Cached by the Vercel CDN for an hour.
+// ============================================================
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  if (req.method === 'OPTIONS') {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', '*');
+
+  try {
+    const jwks = getTokenJwks();
+    if (!jwks) {
+      return res.status(404).json({ error: 'License tokens are not enabled' });
+    }
+
+    res.setHeader('Cache-Control', 's-maxage=3600, stale-while-revalidate=86400');
+    return res.status(200).json(jwks);
+
+  } catch (error: any) {
+    log.error('JWKS error', { requestId, error: error.message });
+    return res.status(500).json({ error: 'Failed to load signing key' });
+  }
+}
@@ -0,0 +1,125 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { extractLookupKey } from '../lib/auth';
+import { getLicense } from '../lib/db';
+import { sendRotatedKeyEmail } from '../lib/email';
+import { revokeLicenseKey } from '../lib/orgs';
+import { MAX_OVERLAP_HOURS, rotateLicenseKey } from '../lib/rekey';
+import { getStripe } from '../lib/stripe';
+import { createLogger, generateRequestId } from '../lib/logger';
+
+const log = createLogger('key');
+
+// ============================================================
+// LICENSE KEY SELF-SERVICE — Помощник
+// ============================================================
+// Authorization: Bearer <license-key>  OR  X-License-Key
+//
+// POST /api/key
+//   Body: { action: 'rotate', overlapHours?: number }
+//   — Replaces the key (e.g. after it leaked). Plan, usage, devices,
+//     credits and the subscription stay. The new key is only sent by
+//     email, never returned here, so a leaked key can't be used to
+//     obtain its replacement. The old key keeps working for
+//     overlapHours (default 0, max 72).
+//
+//   Body: { action: 'revoke', reason?: string }
+//   — Disables the key for good. Refused while the license has a
+//     Stripe subscription that is still billed: webhooks and recovery
+//     ignore revoked licenses, so the customer would keep paying for
+//     a key nobody can use. Those customers rotate or ask support.
+// ============================================================
+
+const MAX_REASON_LENGTH = 500;
+
+// Whether Stripe still bills the subscription; an unknown state counts as billed
+async function isSubscriptionBilled(subscriptionId: string): Promise<boolean> {
+  try {
+    const subscription = await getStripe().subscriptions.retrieve(subscriptionId);
+    return subscription.status !== 'canceled' && subscription.status !== 'incomplete_expired';
+  } catch (err: any) {
+    return err?.code !== 'resource_missing';
+  }
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  // CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-License-Key');
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', '*');
+
+  try {
+    const licenseKey = await extractLookupKey(req);
+    if (!licenseKey) {
+      return res.status(401).json({ error: 'Missing or invalid license key' });
+    }
+
+    const license = await getLicense(licenseKey);
+    if (!license) {
+      return res.status(404).json({ error: 'License key not found' });
+    }
+    if (license.status === 'revoked') {
+      return res.status(403).json({ error: 'License key is revoked' });
+    }
+
+    const { action } = req.body || {};
+
+    // --- Rotate: new key by email ---
+    if (action === 'rotate') {
+      const overlapHours = Number(req.body.overlapHours ?? 0);
+      if (!(overlapHours >= 0 && overlapHours <= MAX_OVERLAP_HOURS)) {
+        return res.status(400).json({ error: `overlapHours must be between 0 and ${MAX_OVERLAP_HOURS}` });
+      }
+
+      const rotated = await rotateLicenseKey(license, overlapHours);
+      if (!rotated) {
+        return res.status(409).json({ error: 'License key was changed by another request' });
+      }
+
+      const emailSent = await sendRotatedKeyEmail(license.email, rotated.licenseKey, rotated.oldKeyValidUntil);
+      if (!emailSent) {
+        log.error('Failed to send rotated key email', { requestId, licenseKey: rotated.record.key });
+      }
+      log.info('Customer rotated license key', { requestId, licenseKey: rotated.record.key, overlapHours });
+      return res.status(200).json({
+        rotated: true,
+        emailSent,
+        email: license.email,
+        oldKeyValidUntil: rotated.oldKeyValidUntil,
+      });
+    }
+
+    // --- Revoke for good ---
+    if (action === 'revoke') {
+      if (license.orgRole === 'admin') {
+        return res.status(400).json({ error: 'The organization admin key can\'t be revoked, as that would disable every member. Rotate it instead.' });
+      }
+      if (license.stripeSubscriptionId && await isSubscriptionBilled(license.stripeSubscriptionId)) {
+        return res.status(409).json({ error: 'This key belongs to a paid subscription and can\'t be revoked here. Rotate it instead, or contact support to cancel the subscription.' });
+      }
+      const reason = typeof req.body.reason === 'string' && req.body.reason.trim()
+        ? req.body.reason.trim().slice(0, MAX_REASON_LENGTH)
+        : 'Revoked by the customer';
+
+      const revoked = await revokeLicenseKey(license, reason);
+      log.info('Customer revoked license key', { requestId, licenseKey, reason });
+      return res.status(200).json({ status: 'revoked', revokedAt: revoked?.revokedAt, reason });
+    }
+
+    return res.status(400).json({ error: 'Unknown action. Use: rotate, revoke' });
+
+  } catch (error: any) {
+    log.error('License key error', { requestId, error: error.message });
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -11,7 +11,9 @@ const log = createLogger('license');
 // GET /api/license?session_id=cs_xxx
 //
 // Called from the Success page after Stripe checkout.
-// Retrieves the license key associated with the checkout session.
+// Reports whether the license for the checkout session is ready.
+// The key itself is only ever sent by email: it isn't stored
+// (see lib/keys.ts), so it can't be returned here.
 // ============================================================
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
@@ -69,10 +71,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     log.info('License retrieved successfully', { requestId, email, plan: license.plan });
 
-    // Return the license key
     return res.status(200).json({
       status: 'ready',
-      licenseKey: license.key,
+      message: `Лицензният ключ е изпратен на ${license.email}.`,
       email: license.email,
       plan: license.plan,
       planName: getPlanName(license.plan),
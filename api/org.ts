@@ -0,0 +1,183 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { extractLookupKey } from '../lib/auth';
+import { getLicense } from '../lib/db';
+import { PLANS } from '../lib/config';
+import { resolveGracePeriod } from '../lib/dunning';
+import { sendLicenseKeyEmail } from '../lib/email';
+import { toLookupKey } from '../lib/rekey';
+import {
+  USAGE_POLICIES,
+  UsagePolicy,
+  getAccountTaskCount,
+  getOrganization,
+  getUsageAccount,
+  issueMemberKey,
+  listMemberKeys,
+  revokeMemberKey,
+  updateOrganization,
+} from '../lib/orgs';
+import { getMonthlyTokenUsage } from '../lib/usage';
+import { createLogger, generateRequestId } from '../lib/logger';
+
+const log = createLogger('org');
+
+// ============================================================
+// ORGANIZATION ADMIN — Помощник
+// ============================================================
+// Authorization: Bearer <org admin license key>  OR  X-License-Key
+//
+// GET  /api/org
+//   — Organization, seats, usage pool and per-member usage this month
+//
+// POST /api/org
+//   Body: { action: 'issue', email }            — new member key (uses a seat)
+//   Body: { action: 'revoke', key }             — revoke a member key
+//                                                 (license key or its lookup key)
+//   Body: { action: 'usage-policy', policy }    — 'shared' | 'split'
+//
+// Members are listed by lookup key; the license key itself is only
+// returned once, when it is issued (and emailed to the member).
+// ============================================================
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  // CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-License-Key');
+    return res.status(200).end();
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', '*');
+
+  try {
+    const licenseKey = await extractLookupKey(req);
+    if (!licenseKey) {
+      return res.status(401).json({ error: 'Missing or invalid license key' });
+    }
+
+    const stored = await getLicense(licenseKey);
+    const admin = stored && await resolveGracePeriod(stored);
+    if (!admin) {
+      return res.status(404).json({ error: 'License key not found' });
+    }
+    if (!admin.orgId || admin.orgRole !== 'admin') {
+      return res.status(403).json({ error: 'Only the organization admin can manage member keys' });
+    }
+
+    const org = await getOrganization(admin.orgId);
+    if (!org) {
+      log.error('Organization missing for admin license', { requestId, licenseKey, orgId: admin.orgId });
+      return res.status(404).json({ error: 'Organization not found' });
+    }
+
+    // --- GET: Organization overview and usage per member ---
+    if (req.method === 'GET') {
+      const account = await getUsageAccount(admin);
+      const memberKeys = await listMemberKeys(org.id);
+
+      const members = await Promise.all(memberKeys.map(async key => {
+        const member = await getLicense(key);
+        return {
+          key,
+          email: member?.email,
+          role: member?.orgRole,
+          status: member?.orgRole === 'member' ? member.status : admin.status,
+          createdAt: member?.createdAt,
+          tasksUsed: member?.tasksUsedThisMonth ?? 0,
+          tokens: await getMonthlyTokenUsage(key),
+        };
+      }));
+
+      log.info('Organization overview', { requestId, licenseKey, orgId: org.id, members: members.length });
+      return res.status(200).json({
+        id: org.id,
+        name: org.name,
+        plan: admin.plan,
+        planName: PLANS[admin.plan]?.name || admin.plan,
+        status: admin.status,
+        seats: org.seats,
+        seatsUsed: memberKeys.length,
+        usagePolicy: org.usagePolicy,
+        // Pool totals for 'shared'; the admin's own allowance for 'split'
+        usage: {
+          tasksUsed: await getAccountTaskCount(account, admin),
+          taskLimit: account.taskLimit,
+          tokens: await getMonthlyTokenUsage(account.key),
+          tokenBudgets: account.tokenBudgets,
+        },
+        members,
+      });
+    }
+
+    if (req.method !== 'POST') {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { action } = req.body || {};
+
+    // --- Issue a member key ---
+    if (action === 'issue') {
+      const email = typeof req.body.email === 'string' ? req.body.email.trim().toLowerCase() : '';
+      if (!EMAIL_PATTERN.test(email)) {
+        return res.status(400).json({ error: 'Invalid email' });
+      }
+      if (admin.status !== 'active' && admin.status !== 'past_due') {
+        return res.status(403).json({ error: `Organization subscription is ${admin.status}` });
+      }
+
+      const issued = await issueMemberKey(org, email);
+      if (!issued) {
+        return res.status(409).json({ error: `All ${org.seats} seats are in use. Add seats or revoke a key first.` });
+      }
+
+      const emailSent = await sendLicenseKeyEmail(email, issued.licenseKey, admin.plan);
+      if (!emailSent) {
+        log.error('Failed to send member key email', { requestId, orgId: org.id, memberKey: issued.record.key });
+      }
+      log.info('Org admin issued member key', { requestId, licenseKey, orgId: org.id, emailSent });
+      return res.status(201).json({ licenseKey: issued.licenseKey, key: issued.record.key, email, emailSent, orgId: org.id });
+    }
+
+    // --- Revoke a member key ---
+    if (action === 'revoke') {
+      const key = typeof req.body.key === 'string' ? await toLookupKey(req.body.key) : null;
+      const member = key ? await getLicense(key) : null;
+      if (!member || member.orgId !== org.id) {
+        return res.status(404).json({ error: 'Member key not found in this organization' });
+      }
+      if (member.orgRole === 'admin') {
+        return res.status(400).json({ error: 'The admin key can\'t be revoked' });
+      }
+      if (member.status === 'revoked') {
+        return res.status(200).json({ key: member.key, status: 'revoked', revokedAt: member.revokedAt });
+      }
+
+      const revoked = await revokeMemberKey(org, member.key);
+      log.info('Org admin revoked member key', { requestId, licenseKey, orgId: org.id });
+      return res.status(200).json({ key: member.key, status: 'revoked', revokedAt: revoked?.revokedAt });
+    }
+
+    // --- Shared or split usage pool ---
+    if (action === 'usage-policy') {
+      const policy = req.body.policy as UsagePolicy;
+      if (!USAGE_POLICIES.includes(policy)) {
+        return res.status(400).json({ error: 'Invalid policy. Choose: shared, split' });
+      }
+
+      const updated = await updateOrganization(org.id, { usagePolicy: policy });
+      log.info('Org usage policy changed', { requestId, licenseKey, orgId: org.id, policy });
+      return res.status(200).json({ id: org.id, usagePolicy: updated?.usagePolicy });
+    }
+
+    return res.status(400).json({ error: 'Unknown action. Use: issue, revoke, usage-policy' });
+
+  } catch (error: any) {
+    log.error('Organization error', { requestId, error: error.message });
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,145 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type Stripe from 'stripe';
+import { CREDIT_PACKS, PLANS } from '../lib/config';
+import {
+  BILLING_CURRENCIES,
+  BILLING_INTERVALS,
+  BillingCurrency,
+  BillingInterval,
+  CREDIT_PACK_PRICES,
+  DEFAULT_CURRENCY,
+  getPriceId,
+  getStripe,
+} from '../lib/stripe';
+import { createLogger, generateRequestId } from '../lib/logger';
+
+const log = createLogger('plans');
+
+// ============================================================
+// PLAN CATALOG — Помощник
+// ============================================================
+// GET /api/plans
+//
+// Public list of plans with their limits and every configured
+// Stripe price (monthly/annual, EUR/BGN), plus the credit packs,
+// so the website doesn't hardcode prices. Amounts are in minor
+// units (cents / стотинки).
+// Cached by the Vercel CDN for 10 minutes. A price Stripe fails to
+// return comes from the instance's last copy, or with amount null;
+// such a partial catalog is cached for a minute only.
+// ============================================================
+
+const PRICE_CACHE_TTL_MS = 10 * 60 * 1000;
+
+// Stripe prices by id, reused for PRICE_CACHE_TTL_MS and after that
+// whenever Stripe can't be reached
+const priceCache = new Map<string, { price: Stripe.Price; fetchedAt: number }>();
+
+interface CatalogPrice {
+  priceId: string;
+  interval: BillingInterval;
+  currency: BillingCurrency;
+  amount: number | null;
+  taxBehavior: string | null;
+}
+
+// Prices by id; ids Stripe didn't return (and that were never cached) are missing
+async function retrievePrices(stripe: Stripe, priceIds: string[], requestId: string): Promise<Map<string, Stripe.Price>> {
+  const now = Date.now();
+  const expired = priceIds.filter(id => !(now - (priceCache.get(id)?.fetchedAt ?? 0) < PRICE_CACHE_TTL_MS));
+
+  const settled = await Promise.allSettled(expired.map(id => stripe.prices.retrieve(id)));
+  settled.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      priceCache.set(expired[i], { price: result.value, fetchedAt: now });
+    } else {
+      log.warn('Failed to load Stripe price', { requestId, priceId: expired[i], error: result.reason?.message });
+    }
+  });
+
+  return new Map(priceIds.flatMap(id => {
+    const cached = priceCache.get(id);
+    return cached ? [[id, cached.price] as const] : [];
+  }));
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  if (req.method === 'OPTIONS') {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', '*');
+
+  try {
+    const stripe = getStripe();
+
+    const planPrices = Object.keys(PLANS).filter(id => id !== 'free').flatMap(plan =>
+      BILLING_INTERVALS.flatMap(interval =>
+        BILLING_CURRENCIES.map(currency => ({ plan, interval, currency, priceId: getPriceId(plan, interval, currency) })),
+      ),
+    ).filter((v): v is typeof v & { priceId: string } => !!v.priceId);
+    const packIds = Object.keys(CREDIT_PACKS).filter(id => !!CREDIT_PACK_PRICES[id]);
+
+    const prices = await retrievePrices(
+      stripe,
+      [...planPrices.map(v => v.priceId), ...packIds.map(id => CREDIT_PACK_PRICES[id]!)],
+      requestId,
+    );
+
+    const plans = Object.entries(PLANS).map(([id, config]) => ({
+      id,
+      name: config.name,
+      taskLimit: config.taskLimit,
+      models: config.models,
+      streaming: config.streaming,
+      vision: config.vision,
+      maxDevices: config.maxDevices,
+      tokenBudgets: config.tokenBudgets,
+      prices: planPrices
+        .filter(v => v.plan === id)
+        .map(({ interval, currency, priceId }): CatalogPrice => ({
+          priceId,
+          interval,
+          currency,
+          amount: prices.get(priceId)?.unit_amount ?? null,
+          taxBehavior: prices.get(priceId)?.tax_behavior ?? null,
+        })),
+    }));
+
+    const creditPacks = packIds.map(id => {
+      const priceId = CREDIT_PACK_PRICES[id]!;
+      return {
+        id,
+        name: CREDIT_PACKS[id].name,
+        credits: CREDIT_PACKS[id].credits,
+        priceId,
+        currency: prices.get(priceId)?.currency ?? null,
+        amount: prices.get(priceId)?.unit_amount ?? null,
+      };
+    });
+
+    const complete = planPrices.every(v => prices.has(v.priceId)) && packIds.every(id => prices.has(CREDIT_PACK_PRICES[id]!));
+    res.setHeader('Cache-Control', complete
+      ? 's-maxage=600, stale-while-revalidate=3600'
+      : 's-maxage=60');
+    return res.status(200).json({
+      defaultCurrency: DEFAULT_CURRENCY,
+      currencies: BILLING_CURRENCIES,
+      intervals: BILLING_INTERVALS,
+      plans,
+      creditPacks,
+    });
+
+  } catch (error: any) {
+    log.error('Plan catalog error', { requestId, error: error.message });
+    return res.status(500).json({ error: 'Failed to load plan catalog' });
+  }
+}
@@ -0,0 +1,67 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { extractLookupKey } from '../lib/auth';
+import { getLicense } from '../lib/db';
+import { getStripe } from '../lib/stripe';
+import { createLogger, generateRequestId } from '../lib/logger';
+
+const log = createLogger('portal');
+
+// ============================================================
+// BILLING PORTAL — Помощник
+// ============================================================
+// POST /api/portal
+//   Authorization: Bearer <license-key>  OR  X-License-Key
+//
+// Returns { url } of a Stripe Customer Portal session, where the
+// customer can update cards, download invoices or cancel.
+// After leaving the portal Stripe sends them to PORTAL_RETURN_URL.
+// ============================================================
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  // CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-License-Key');
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', '*');
+
+  try {
+    const licenseKey = await extractLookupKey(req);
+    if (!licenseKey) {
+      return res.status(401).json({ error: 'Missing or invalid license key' });
+    }
+
+    const license = await getLicense(licenseKey);
+    if (!license) {
+      log.info('License key not found', { requestId, licenseKey });
+      return res.status(404).json({ error: 'License key not found' });
+    }
+
+    // Any status is fine — cancelled customers still need their invoices
+    if (!license.stripeCustomerId) {
+      return res.status(400).json({ error: 'No Stripe customer for this license. Use /api/checkout to subscribe.' });
+    }
+
+    const stripe = getStripe();
+    const session = await stripe.billingPortal.sessions.create({
+      customer: license.stripeCustomerId,
+      return_url: process.env.PORTAL_RETURN_URL || 'https://pomoshnik.tech/account',
+    });
+
+    log.info('Billing portal session created', { requestId, licenseKey, customerId: license.stripeCustomerId });
+    return res.status(200).json({ url: session.url });
+
+  } catch (error: any) {
+    log.error('Portal error', { requestId, error: error.message });
+    return res.status(500).json({ error: 'Failed to create billing portal session' });
+  }
+}
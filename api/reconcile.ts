@@ -0,0 +1,155 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type Stripe from 'stripe';
+import { isAdminAuthorized, isCronAuthorized } from '../lib/auth';
+import { LicenseRecord, getLicense, listLicenseKeys } from '../lib/db';
+import { resolveGracePeriod, withGracePeriodApplied } from '../lib/dunning';
+import { getStripe, getSubscriptionPlan } from '../lib/stripe';
+import { LicenseState, applySubscription, expectedLicenseState, findLicenseForStripe, idOf } from '../lib/subscriptions';
+import { createLogger, generateRequestId } from '../lib/logger';
+
+const log = createLogger('reconcile');
+
+// ============================================================
+// STRIPE RECONCILIATION — Помощник
+// ============================================================
+// GET /api/reconcile            — report only (dry run)
+// GET /api/reconcile?repair=true — also fix the mismatches
+//   Header: Authorization: Bearer <ADMIN_SECRET or CRON_SECRET>
+//
+// Compares every non-cancelled Stripe subscription and every
+// license with a stripeSubscriptionId, and reports licenses whose
+// plan or status doesn't match Stripe (e.g. after a lost webhook).
+// Scheduled daily via "crons" in vercel.json.
+// ============================================================
+
+interface Mismatch {
+  issue: 'state' | 'missing_license' | 'subscription_not_found';
+  subscriptionId: string;
+  licenseKey: string | null;
+  stripeStatus?: string;
+  stripePlan?: string | null;
+  license?: LicenseState;
+  expected?: LicenseState;
+  repaired: boolean;
+}
+
+function isNotFound(error: any): boolean {
+  return error?.code === 'resource_missing' || error?.statusCode === 404;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isAdminAuthorized(req) && !isCronAuthorized(req)) {
+    log.warn('Unauthorized reconcile attempt', { requestId, ip: req.headers['x-forwarded-for'] });
+    return res.status(401).json({ error: 'Unauthorized. Provide admin secret in Authorization header.' });
+  }
+
+  const repair = req.query.repair === 'true' || req.query.repair === '1';
+  const startedAt = Date.now();
+
+  try {
+    const stripe = getStripe();
+    const mismatches: Mismatch[] = [];
+    const checkedLicenses = new Set<string>();
+    let subscriptionsChecked = 0;
+
+    const compare = async (license: LicenseRecord, subscription: Stripe.Subscription) => {
+      checkedLicenses.add(license.key);
+      // Revoked licenses ignore Stripe (see revokeLicense)
+      if (license.status === 'revoked') return;
+      // A dry run must not write, so an expired grace period is only applied in memory
+      const current = repair ? await resolveGracePeriod(license) : withGracePeriodApplied(license);
+      const expected = expectedLicenseState(current, subscription);
+      if (expected.plan === current.plan && expected.status === current.status) return;
+
+      const mismatch: Mismatch = {
+        issue: 'state',
+        subscriptionId: subscription.id,
+        licenseKey: current.key,
+        stripeStatus: subscription.status,
+        stripePlan: getSubscriptionPlan(subscription),
+        license: { plan: current.plan, status: current.status },
+        expected,
+        repaired: false,
+      };
+
+      if (repair) {
+        const updated = await applySubscription(current, subscription);
+        mismatch.repaired = !!updated && updated.plan === expected.plan && updated.status === expected.status;
+      }
+      mismatches.push(mismatch);
+    };
+
+    // --- Pass 1: every subscription Stripe still bills (default list excludes canceled) ---
+    for await (const subscription of stripe.subscriptions.list({ limit: 100 })) {
+      subscriptionsChecked++;
+      const license = await findLicenseForStripe(
+        subscription.id,
+        idOf(subscription.customer),
+        subscription.metadata?.email,
+      );
+
+      if (!license) {
+        mismatches.push({
+          issue: 'missing_license',
+          subscriptionId: subscription.id,
+          licenseKey: null,
+          stripeStatus: subscription.status,
+          stripePlan: getSubscriptionPlan(subscription),
+          repaired: false,
+        });
+        continue;
+      }
+      // The license has moved on to a newer subscription
+      if (license.stripeSubscriptionId && license.stripeSubscriptionId !== subscription.id) continue;
+
+      await compare(license, subscription);
+    }
+
+    // --- Pass 2: licenses whose subscription wasn't in the list (cancelled or gone) ---
+    for (const key of await listLicenseKeys()) {
+      if (checkedLicenses.has(key)) continue;
+      const license = await getLicense(key);
+      if (!license?.stripeSubscriptionId) continue;
+
+      let subscription: Stripe.Subscription;
+      try {
+        subscription = await stripe.subscriptions.retrieve(license.stripeSubscriptionId);
+      } catch (error: any) {
+        if (!isNotFound(error)) throw error;
+        mismatches.push({
+          issue: 'subscription_not_found',
+          subscriptionId: license.stripeSubscriptionId,
+          licenseKey: license.key,
+          license: { plan: license.plan, status: license.status },
+          repaired: false,
+        });
+        continue;
+      }
+      subscriptionsChecked++;
+      await compare(license, subscription);
+    }
+
+    const summary = {
+      dryRun: !repair,
+      subscriptionsChecked,
+      licensesChecked: checkedLicenses.size,
+      mismatches: mismatches.length,
+      repaired: mismatches.filter(m => m.repaired).length,
+      missingLicenses: mismatches.filter(m => m.issue === 'missing_license').length,
+      durationMs: Date.now() - startedAt,
+    };
+    log.info('Reconciliation finished', { requestId, ...summary });
+
+    return res.status(200).json({ ...summary, details: mismatches });
+
+  } catch (error: any) {
+    log.error('Reconciliation error', { requestId, error: error.message });
+    return res.status(500).json({ error: 'Reconciliation failed' });
+  }
+}
@@ -0,0 +1,147 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getClientIp } from '../lib/auth';
+import { getLicense, getLicenseByEmail, updateLicense } from '../lib/db';
+import { PLANS } from '../lib/config';
+import { sendRecoveryEmail, sendRotatedKeyEmail } from '../lib/email';
+import { checkAttemptLimit } from '../lib/ratelimit';
+import { createRecoveryLink, redeemRecoveryToken } from '../lib/recovery';
+import { rotateLicenseKey } from '../lib/rekey';
+import { createLogger, generateRequestId } from '../lib/logger';
+
+const log = createLogger('recover');
+
+// ============================================================
+// LOST LICENSE KEY RECOVERY — Помощник
+// ============================================================
+// Public, no license key needed.
+//
+// POST /api/recover
+//   Body: { action: 'send', email: string }
+//   — Emails a one-time recovery link if a license is registered
+//     under the address. The response is the same whether or not
+//     one is, so it can't be used to find out who is a customer.
+//
+//   Body: { action: 'redeem', token: string }
+//   — Called by the page the link opens (RECOVERY_URL). Issues a
+//     new key for the license and returns it (also sent by email);
+//     the lost key stops working. Plan, usage, devices, credits and
+//     the subscription stay.
+//
+// Limits: 10 requests per IP and 3 links per email address per hour.
+// ============================================================
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const LIMIT_WINDOW_SECONDS = 60 * 60;
+const MAX_REQUESTS_PER_IP = 10;
+const MAX_LINKS_PER_EMAIL = 3;
+// Every 'send' answer takes at least this long, so response time
+// doesn't reveal whether a link (Redis write + email) was sent
+const MIN_SEND_RESPONSE_MS = 2000;
+
+const SENT_RESPONSE = {
+  status: 'sent',
+  message: 'Ако за този email има регистриран лиценз, изпратихме линк за възстановяване на ключа.',
+};
+
+// Answer a 'send' request no earlier than `respondAt` (ms timestamp)
+async function respondSent(res: VercelResponse, respondAt: number) {
+  const wait = respondAt - Date.now();
+  if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+  return res.status(200).json(SENT_RESPONSE);
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  // CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', '*');
+
+  try {
+    const ip = getClientIp(req);
+    const ipLimit = await checkAttemptLimit('recover:ip', ip, MAX_REQUESTS_PER_IP, LIMIT_WINDOW_SECONDS);
+    if (!ipLimit.allowed) {
+      log.warn('Recovery rate limit exceeded', { requestId, ip });
+      res.setHeader('Retry-After', String(ipLimit.resetInSeconds));
+      return res.status(429).json({ error: 'Too many requests. Please try again later.' });
+    }
+
+    const { action } = req.body || {};
+
+    // --- Send a recovery link ---
+    if (action === 'send') {
+      const respondAt = Date.now() + MIN_SEND_RESPONSE_MS;
+      const email = typeof req.body.email === 'string' ? req.body.email.trim() : '';
+      if (!EMAIL_PATTERN.test(email)) {
+        return res.status(400).json({ error: 'Missing or invalid email' });
+      }
+
+      // Counted whether or not the address has a license
+      const emailLimit = await checkAttemptLimit('recover:email', email.toLowerCase(), MAX_LINKS_PER_EMAIL, LIMIT_WINDOW_SECONDS);
+      if (!emailLimit.allowed) {
+        log.warn('Recovery email limit exceeded', { requestId, email, ip });
+        return respondSent(res, respondAt);
+      }
+
+      // Stripe keeps the address as the customer typed it
+      const license = await getLicenseByEmail(email) || await getLicenseByEmail(email.toLowerCase());
+      if (!license || license.status === 'revoked') {
+        log.info('Recovery requested for unknown email', { requestId, email, ip });
+        return respondSent(res, respondAt);
+      }
+
+      const link = await createRecoveryLink(license.key);
+      const emailSent = await sendRecoveryEmail(license.email, link.url, link.expiresAt);
+      if (!emailSent) {
+        log.error('Failed to send recovery email', { requestId, licenseKey: license.key });
+      }
+      log.info('Recovery link sent', { requestId, licenseKey: license.key, ip });
+      return respondSent(res, respondAt);
+    }
+
+    // --- Redeem a link: issue a new key ---
+    if (action === 'redeem') {
+      const token = typeof req.body.token === 'string' ? req.body.token : '';
+      const licenseKey = token && await redeemRecoveryToken(token);
+      const license = licenseKey ? await getLicense(licenseKey) : null;
+      if (!license || license.status === 'revoked') {
+        log.info('Invalid recovery token', { requestId, licenseKey, ip });
+        return res.status(400).json({ error: 'Invalid or expired recovery link. Please request a new one.' });
+      }
+
+      const rotated = await rotateLicenseKey(license);
+      if (!rotated) {
+        return res.status(409).json({ error: 'License key was changed by another request' });
+      }
+      // The customer has a working key now; a Stripe retry mustn't replace it
+      if (rotated.record.keyDeliveryFailed) {
+        await updateLicense(rotated.record.key, { keyDeliveryFailed: null });
+      }
+
+      const emailSent = await sendRotatedKeyEmail(license.email, rotated.licenseKey, null);
+      log.info('License key recovered', { requestId, licenseKey: rotated.record.key, previousKey: license.key, emailSent, ip });
+      return res.status(200).json({
+        licenseKey: rotated.licenseKey,
+        email: license.email,
+        plan: license.plan,
+        planName: PLANS[license.plan]?.name || license.plan,
+      });
+    }
+
+    return res.status(400).json({ error: 'Unknown action. Use: send, redeem' });
+
+  } catch (error: any) {
+    log.error('Recovery error', { requestId, error: error.message });
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
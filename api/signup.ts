@@ -0,0 +1,140 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getClientIp } from '../lib/auth';
+import { PLANS } from '../lib/config';
+import { sendExistingLicenseEmail, sendLicenseKeyEmail, sendSignupCodeEmail } from '../lib/email';
+import { checkAttemptLimit } from '../lib/ratelimit';
+import { createRecoveryLink } from '../lib/recovery';
+import { checkSignupCode, createFreeLicense, createSignupCode, getSignupLicense, hasSignedUp, isDisposableEmail, normalizeSignupEmail } from '../lib/signup';
+import { createLogger, generateRequestId } from '../lib/logger';
+
+const log = createLogger('signup');
+
+// ============================================================
+// FREE PLAN SIGNUP — Помощник
+// ============================================================
+// Public, no license key needed.
+//
+// POST /api/signup
+//   Body: { action: 'send-code', email: string }
+//   — Emails a 6-digit verification code (valid for
+//     SIGNUP_CODE_TTL_MINUTES). An address that already has a
+//     license gets a recovery link for its key instead; the response
+//     is the same either way. Disposable email domains get 400.
+//
+//   Body: { action: 'verify', email: string, code: string }
+//   — Creates the free license and returns its key (also sent by
+//     email). 5 wrong codes drop the pending code.
+//
+// Limits: 10 requests per IP and 3 codes per email address per hour.
+// ============================================================
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const LIMIT_WINDOW_SECONDS = 60 * 60;
+const MAX_REQUESTS_PER_IP = 10;
+const MAX_CODES_PER_EMAIL = 3;
+
+const CODE_SENT_RESPONSE = {
+  status: 'code_sent',
+  message: 'Изпратихме код за потвърждение на посочения email.',
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const requestId = generateRequestId();
+
+  // CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', '*');
+
+  try {
+    const ip = getClientIp(req);
+    const ipLimit = await checkAttemptLimit('signup:ip', ip, MAX_REQUESTS_PER_IP, LIMIT_WINDOW_SECONDS);
+    if (!ipLimit.allowed) {
+      log.warn('Signup rate limit exceeded', { requestId, ip });
+      res.setHeader('Retry-After', String(ipLimit.resetInSeconds));
+      return res.status(429).json({ error: 'Too many requests. Please try again later.' });
+    }
+
+    const { action } = req.body || {};
+    const email = typeof req.body?.email === 'string' ? req.body.email.trim() : '';
+    if (action !== 'send-code' && action !== 'verify') {
+      return res.status(400).json({ error: 'Unknown action. Use: send-code, verify' });
+    }
+    if (!EMAIL_PATTERN.test(email)) {
+      return res.status(400).json({ error: 'Missing or invalid email' });
+    }
+    if (isDisposableEmail(email)) {
+      log.info('Signup with disposable email refused', { requestId, email, ip });
+      return res.status(400).json({ error: 'Disposable email addresses are not accepted. Please use your regular email.' });
+    }
+
+    // --- Send a verification code ---
+    if (action === 'send-code') {
+      const emailLimit = await checkAttemptLimit('signup:email', normalizeSignupEmail(email), MAX_CODES_PER_EMAIL, LIMIT_WINDOW_SECONDS);
+      if (!emailLimit.allowed) {
+        log.warn('Signup email limit exceeded', { requestId, email, ip });
+        res.setHeader('Retry-After', String(emailLimit.resetInSeconds));
+        return res.status(429).json({ error: 'Too many codes requested for this email. Please try again later.' });
+      }
+
+      if (await hasSignedUp(email)) {
+        const existing = await getSignupLicense(email);
+        if (existing && existing.status !== 'revoked') {
+          const link = await createRecoveryLink(existing.key);
+          await sendExistingLicenseEmail(existing.email, link.url, link.expiresAt);
+        }
+        log.info('Repeat signup', { requestId, email, ip, licenseKey: existing?.key });
+        return res.status(200).json(CODE_SENT_RESPONSE);
+      }
+
+      const { code, expiresAt } = await createSignupCode(email);
+      const emailSent = await sendSignupCodeEmail(email, code, expiresAt);
+      if (!emailSent) {
+        log.error('Failed to send signup code', { requestId, email });
+        return res.status(502).json({ error: 'Failed to send the verification email. Please try again later.' });
+      }
+      log.info('Signup code sent', { requestId, email, ip });
+      return res.status(200).json(CODE_SENT_RESPONSE);
+    }
+
+    // --- Verify the code and create the license ---
+    const code = typeof req.body.code === 'string' ? req.body.code : '';
+    const check = code ? await checkSignupCode(email, code) : 'invalid';
+    if (check !== 'ok') {
+      log.info('Signup code rejected', { requestId, email, ip, reason: check });
+      return res.status(check === 'too_many_attempts' ? 429 : 400).json({
+        error: check === 'too_many_attempts'
+          ? 'Too many wrong codes. Please request a new code.'
+          : 'Invalid or expired code',
+      });
+    }
+
+    const created = await createFreeLicense(email);
+    if (!created) {
+      log.info('Signup for an email that already has a license', { requestId, email });
+      return res.status(409).json({ error: 'This email already has a license. Use key recovery if you lost it.' });
+    }
+
+    const emailSent = await sendLicenseKeyEmail(email, created.licenseKey, 'free');
+    log.info('Free license created', { requestId, email, ip, licenseKey: created.record.key, emailSent });
+    return res.status(201).json({
+      licenseKey: created.licenseKey,
+      email,
+      plan: 'free',
+      planName: PLANS.free.name,
+    });
+
+  } catch (error: any) {
+    log.error('Signup error', { requestId, error: error.message });
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -1,6 +1,15 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { extractLicenseKey } from '../lib/auth';
+import { isValidLicenseKey } from '../lib/keys';
+import { resolveLicenseKey } from '../lib/rekey';
 import { getLicense } from '../lib/db';
 import { PLANS } from '../lib/config';
+import { resolveGracePeriod } from '../lib/dunning';
+import { getCreditBalance } from '../lib/credits';
+import { checkDeviceActivation, isDeviceAllowed } from '../lib/devices';
+import { getAccountTaskCount, getOrganization, getUsageAccount, resolveOrgLicense } from '../lib/orgs';
+import { getMonthlyTokenUsage, summarizeTokenBudgets } from '../lib/usage';
+import { issueLicenseToken } from '../lib/tokens';
 import { createLogger, generateRequestId } from '../lib/logger';
 
 const log = createLogger('verify');
@@ -11,9 +20,24 @@ const log = createLogger('verify');
 // GET /api/verify
 //   Authorization: Bearer <license-key>
 //   OR X-License-Key: <license-key>
+//   X-Device-Id: <installation id>   (activates this device)
+//   X-Device-Name: <label>           (optional, e.g. "Chrome on Windows")
+//   ?token=true                      (also return a signed license token)
 //
 // Returns: { active: boolean, plan: string, planName: string,
-//            tasksUsed: number, taskLimit: number }
+//            status: string, tasksUsed: number, taskLimit: number,
+//            credits: number,
+//            tokens: { [tier]: { used, budget, remaining } },
+//            warning?: { code, message, graceEndsAt },
+//            organization?: { id, name, role, usagePolicy, memberTasksUsed },
+//            activation: { deviceId, status, devicesUsed, maxDevices },
+//            token?: string, tokenExpiresAt?: string }
+// 403 with activation.status 'limit_reached' when the key is
+// already active on as many devices as the plan allows.
+// For a shared org pool, tasks/tokens/credits are the pool's.
+// The token (lib/tokens.ts) can be sent to /api/ai instead of the
+// key until it expires; it is bound to the X-Device-Id it was
+// issued for.
 // ============================================================
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
@@ -23,7 +47,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method === 'OPTIONS') {
     res.setHeader('Access-Control-Allow-Origin', '*');
     res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-License-Key');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-License-Key, X-Device-Id, X-Device-Name');
     return res.status(200).end();
   }
 
@@ -33,17 +57,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
   try {
     // Extract license key
-    const xKey = req.headers['x-license-key'];
-    const auth = req.headers['authorization'];
-    let licenseKey: string | null = null;
-
-    if (xKey && typeof xKey === 'string') {
-      licenseKey = xKey;
-    } else if (auth && typeof auth === 'string' && auth.startsWith('Bearer ')) {
-      licenseKey = auth.slice(7).trim();
-    }
+    const rawKey = extractLicenseKey(req);
 
-    if (!licenseKey) {
+    if (!rawKey) {
       log.warn('Verify request without license key', { requestId });
       return res.status(401).json({
         active: false,
@@ -51,8 +67,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       });
     }
 
-    // Look up license
-    const license = await getLicense(licenseKey);
+    // Look up license (a key failing its checksum is a typo; don't look it up)
+    const licenseKey = isValidLicenseKey(rawKey) ? await resolveLicenseKey(rawKey) : null;
+    const stored = licenseKey && await getLicense(licenseKey);
+    const license = stored && await resolveOrgLicense(await resolveGracePeriod(stored));
 
     if (!license) {
       log.info('License key not found', { requestId, licenseKey });
@@ -63,7 +81,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       });
     }
 
-    if (license.status !== 'active') {
+    if (license.status !== 'active' && license.status !== 'past_due') {
       log.info('Inactive license verified', { requestId, licenseKey, status: license.status });
       res.setHeader('Access-Control-Allow-Origin', '*');
       return res.status(403).json({
@@ -78,17 +96,73 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     // Active license — return info
     const planConfig = PLANS[license.plan] || PLANS.free;
 
-    log.info('License verified', { requestId, licenseKey, plan: license.plan });
+    const activation = await checkDeviceActivation(req, licenseKey, license.plan);
+    if (!isDeviceAllowed(activation)) {
+      log.info('Device not activated', { requestId, licenseKey, status: activation.status, devicesUsed: activation.devicesUsed });
+      res.setHeader('Access-Control-Allow-Origin', '*');
+      return res.status(activation.status === 'limit_reached' ? 403 : 400).json({
+        active: false,
+        plan: license.plan,
+        planName: planConfig.name,
+        status: license.status,
+        activation,
+        error: activation.status === 'limit_reached'
+          ? `Device limit reached (${activation.maxDevices}). Deactivate a device to use this license here.`
+          : 'Missing X-Device-Id header',
+      });
+    }
+    const account = await getUsageAccount(license);
+    const tokensUsed = await getMonthlyTokenUsage(account.key);
+    const credits = await getCreditBalance(account.key);
+    const org = license.orgId ? await getOrganization(license.orgId) : null;
+
+    // Still served during the grace period, but the user must fix the payment
+    const warning = license.status === 'past_due'
+      ? {
+        code: 'payment_past_due',
+        message: `Payment failed. Please update your payment method before ${license.graceEndsAt?.slice(0, 10)} or your plan will be downgraded to ${PLANS.free.name}.`,
+        graceEndsAt: license.graceEndsAt,
+      }
+      : license.downgradedFromPlan
+        ? {
+          code: 'downgraded_for_non_payment',
+          message: `Your ${PLANS[license.downgradedFromPlan]?.name || license.downgradedFromPlan} plan was downgraded because of an unpaid invoice. Pay it to restore your plan.`,
+        }
+        : undefined;
+
+    const signed = req.query.token === 'true' ? issueLicenseToken(license, account, activation.deviceId) : null;
+    if (req.query.token === 'true' && !signed) {
+      log.warn('License token requested but LICENSE_TOKEN_PRIVATE_KEY is not set', { requestId });
+    }
+
+    log.info('License verified', { requestId, licenseKey, plan: license.plan, status: license.status });
     res.setHeader('Access-Control-Allow-Origin', '*');
     return res.status(200).json({
       active: true,
       plan: license.plan,
       planName: planConfig.name,
+      status: license.status,
       email: license.email,
-      tasksUsed: license.tasksUsedThisMonth,
-      taskLimit: planConfig.taskLimit,
+      tasksUsed: await getAccountTaskCount(account, license),
+      taskLimit: account.taskLimit,
+      credits,           // Purchased tasks, used after taskLimit
       models: planConfig.models,
+      vision: planConfig.vision,
+      tokens: summarizeTokenBudgets({ ...planConfig, tokenBudgets: account.tokenBudgets }, tokensUsed),
       monthResetDate: license.monthResetDate,
+      activation,
+      ...(license.scheduledPlan && { scheduledPlan: license.scheduledPlan, scheduledPlanAt: license.scheduledPlanAt }),
+      ...(warning && { warning }),
+      ...(signed && { token: signed.token, tokenExpiresAt: signed.expiresAt }),
+      ...(org && {
+        organization: {
+          id: org.id,
+          name: org.name,
+          role: license.orgRole,
+          usagePolicy: org.usagePolicy,
+          memberTasksUsed: license.tasksUsedThisMonth,
+        },
+      }),
     });
 
   } catch (error: any) {
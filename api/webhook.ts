@@ -1,6 +1,13 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { getStripe } from '../lib/stripe';
-import { createLicense, saveSubscription, getLicenseByEmail } from '../lib/db';
+import type Stripe from 'stripe';
+import { getLicenseStatus, getPlanForPriceId, getStripe, getSubscriptionPlan } from '../lib/stripe';
+import { LicenseRecord, createLicense, saveSubscription, getLicense, getLicenseByEmail, updateLicense } from '../lib/db';
+import { addCredits } from '../lib/credits';
+import { createOrganization } from '../lib/orgs';
+import { rotateLicenseKey, toLookupKey } from '../lib/rekey';
+import { markPastDue, reinstateLicense } from '../lib/dunning';
+import { applySubscription, findLicenseForStripe, idOf } from '../lib/subscriptions';
+import { StripeEventRef, claimEvent, completeEvent, isStaleEvent, recordAppliedEvent, releaseEvent } from '../lib/events';
 import { createLogger } from '../lib/logger';
 import { sendLicenseKeyEmail } from '../lib/email';
 
@@ -10,8 +17,13 @@ const log = createLogger('webhook');
 // STRIPE WEBHOOK — Помощник
 // ============================================================
 // POST /api/webhook
-// Handles: checkout.session.completed, customer.subscription.updated,
-//          customer.subscription.deleted
+// Handles: checkout.session.completed (subscriptions and credit
+//          packs), customer.subscription.updated,
+//          customer.subscription.deleted, invoice.payment_failed,
+//          invoice.paid
+//
+// Each event id is applied once (lib/events.ts); events older than
+// the last one applied to a license are ignored.
 //
 // Security: Stripe webhook signature verification is REQUIRED.
 // The STRIPE_WEBHOOK_SECRET env var must be set in production.
@@ -24,6 +36,325 @@ export const config = {
   },
 };
 
+// ============================================================
+// Subscription Lifecycle
+// ============================================================
+
+// An event for a subscription the license has since replaced
+function isReplacedSubscription(license: LicenseRecord, subscriptionId: string | null): boolean {
+  return !!license.stripeSubscriptionId && !!subscriptionId && license.stripeSubscriptionId !== subscriptionId;
+}
+
+// A newer event has already been applied to this license
+function isOutOfOrder(license: LicenseRecord, event: StripeEventRef): boolean {
+  if (!isStaleEvent(license, event)) return false;
+  log.info('Ignoring out-of-order event', {
+    licenseKey: license.key,
+    eventId: event.id,
+    eventType: event.type,
+    created: event.created,
+    lastApplied: license.lastStripeEventAt,
+  });
+  return true;
+}
+
+// Revoked keys stay revoked whatever Stripe reports (see revokeLicense)
+function isRevoked(license: LicenseRecord, event: StripeEventRef): boolean {
+  if (license.status !== 'revoked') return false;
+  log.info('Ignoring event for a revoked license', { licenseKey: license.key, eventId: event.id, eventType: event.type });
+  return true;
+}
+
+// Each handler returns the key of the license it changed, if any
+
+// The key email is the only place the key itself ends up. If it can't
+// be sent, the license is flagged and the event fails, so Stripe's
+// retry sends a new key (the customer can also use /api/recover).
+async function deliverLicenseKey(license: LicenseRecord, licenseKey: string): Promise<void> {
+  if (await sendLicenseKeyEmail(license.email, licenseKey, license.plan)) {
+    if (license.keyDeliveryFailed) await updateLicense(license.key, { keyDeliveryFailed: null });
+    return;
+  }
+  await updateLicense(license.key, { keyDeliveryFailed: true });
+  throw new Error('Failed to send the license key email');
+}
+
+// Nobody has seen the key of a flagged license, so it is replaced
+// and the new one sent. Returns the new lookup key.
+async function redeliverLicenseKey(license: LicenseRecord): Promise<string> {
+  const rotated = await rotateLicenseKey(license);
+  if (!rotated) throw new Error('License changed while reissuing its key');
+  log.info('Resending license key', { licenseKey: rotated.record.key, previousKey: license.key });
+  await deliverLicenseKey(rotated.record, rotated.licenseKey);
+  return rotated.record.key;
+}
+
+// Checkout for a company (organization + seats) from /api/checkout
+async function setUpOrganization(session: Stripe.Checkout.Session, licenseKey: string): Promise<void> {
+  const name = session.metadata?.organization;
+  if (!name) return;
+
+  const license = await getLicense(licenseKey);
+  if (!license || license.orgId) return;
+  await createOrganization(license, name, parseInt(session.metadata?.seats || '1', 10));
+}
+
+async function handleCheckoutCompleted(session: Stripe.Checkout.Session, event: StripeEventRef): Promise<string | null> {
+  const email = session.customer_email || session.metadata?.email;
+  const plan = session.metadata?.plan || 'starter';
+  const customerId = idOf(session.customer) || undefined;
+  const subscriptionId = idOf(session.subscription) || undefined;
+
+  if (!email) {
+    log.warn('Checkout completed without email', { sessionId: session.id });
+    return null;
+  }
+
+  // Check if user already has a license (a revoked one is replaced by a new license)
+  const existing = await getLicenseByEmail(email);
+  if (existing && existing.status !== 'revoked') {
+    const licenseKey = existing.keyDeliveryFailed ? await redeliverLicenseKey(existing) : existing.key;
+    if (isOutOfOrder(existing, event)) return null;
+
+    // Update existing license
+    await saveSubscription(email, {
+      plan,
+      status: 'active',
+      stripeCustomerId: customerId,
+      stripeSubscriptionId: subscriptionId,
+    });
+    log.info('Updated existing license', { email, plan, licenseKey });
+    await setUpOrganization(session, licenseKey);
+    return licenseKey;
+  }
+
+  // Create new license
+  const { licenseKey, record } = await createLicense(email, plan, {
+    customerId,
+    subscriptionId,
+  });
+  log.info('Created new license', { email, plan, licenseKey: record.key });
+  await setUpOrganization(session, record.key);
+  await deliverLicenseKey(record, licenseKey);
+  return record.key;
+}
+
+async function handleSubscriptionUpdated(subscription: Stripe.Subscription, event: StripeEventRef): Promise<string | null> {
+  const customerId = idOf(subscription.customer);
+  const license = await findLicenseForStripe(subscription.id, customerId, subscription.metadata?.email);
+  if (!license) {
+    log.warn('No license for subscription', { customerId, subscriptionId: subscription.id });
+    return null;
+  }
+  if (isOutOfOrder(license, event) || isRevoked(license, event)) return null;
+
+  const status = getLicenseStatus(subscription.status);
+
+  // The customer has moved to a newer subscription; only an active one may take over
+  if (isReplacedSubscription(license, subscription.id) && status !== 'active') {
+    log.info('Ignoring update for a replaced subscription', {
+      licenseKey: license.key,
+      subscriptionId: subscription.id,
+      currentSubscriptionId: license.stripeSubscriptionId,
+    });
+    return null;
+  }
+
+  if (!getSubscriptionPlan(subscription)) {
+    log.warn('Unknown Stripe price, keeping current plan', {
+      licenseKey: license.key,
+      priceId: subscription.items?.data?.[0]?.price?.id,
+    });
+  }
+
+  const updated = await applySubscription(license, subscription);
+
+  log.info('License updated from subscription', {
+    licenseKey: license.key,
+    subscriptionId: subscription.id,
+    subscriptionStatus: subscription.status,
+    plan: updated?.plan,
+    status: updated?.status,
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+  });
+  return license.key;
+}
+
+async function handleSubscriptionDeleted(subscription: Stripe.Subscription, event: StripeEventRef): Promise<string | null> {
+  const customerId = idOf(subscription.customer);
+  const license = await findLicenseForStripe(subscription.id, customerId, subscription.metadata?.email);
+  if (!license) {
+    log.warn('No license for subscription', { customerId, subscriptionId: subscription.id });
+    return null;
+  }
+  if (isOutOfOrder(license, event) || isRevoked(license, event)) return null;
+
+  if (isReplacedSubscription(license, subscription.id)) {
+    log.info('Ignoring deletion of a replaced subscription', {
+      licenseKey: license.key,
+      subscriptionId: subscription.id,
+      currentSubscriptionId: license.stripeSubscriptionId,
+    });
+    return null;
+  }
+
+  // Deletion events always carry status 'canceled'
+  const updated = await applySubscription(license, { ...subscription, status: 'canceled' });
+
+  log.info('License deactivated', {
+    licenseKey: license.key,
+    subscriptionId: subscription.id,
+    plan: updated?.plan,
+    status: updated?.status,
+  });
+  return license.key;
+}
+
+// ============================================================
+// Credit Packs
+// ============================================================
+
+// One-time payment sessions created by /api/buy-credits
+function isCreditPurchase(session: Stripe.Checkout.Session): boolean {
+  return session.mode === 'payment' && session.metadata?.type === 'credits';
+}
+
+// The key in the session metadata may have been rotated since checkout:
+// follow its alias, then fall back to the Stripe customer or email
+async function findCreditLicense(session: Stripe.Checkout.Session): Promise<LicenseRecord | null> {
+  // Sessions created before keys were hashed carry the license key itself
+  const metadataKey = session.metadata?.licenseKey;
+  const byKey = metadataKey ? await getLicense(await toLookupKey(metadataKey)) : null;
+  if (byKey) return byKey;
+
+  return findLicenseForStripe(null, idOf(session.customer), session.customer_details?.email || session.customer_email);
+}
+
+async function handleCreditPurchase(session: Stripe.Checkout.Session): Promise<string | null> {
+  const metadataKey = session.metadata?.licenseKey;
+  const credits = parseInt(session.metadata?.credits || '0', 10);
+
+  if (session.payment_status !== 'paid') {
+    log.warn('Credit checkout completed without payment', { sessionId: session.id, paymentStatus: session.payment_status });
+    return null;
+  }
+  if (!(credits > 0)) {
+    log.error('Credit purchase without a credit amount', { sessionId: session.id, credits: session.metadata?.credits });
+    return null;
+  }
+
+  const license = await findCreditLicense(session);
+  if (!license) {
+    // Paid for: fail the event so Stripe retries instead of dropping the credits
+    log.error('Credit purchase for unknown license', { sessionId: session.id, licenseKey: metadataKey, credits });
+    throw new Error('Credit purchase for unknown license');
+  }
+  const licenseKey = license.key;
+
+  // The session id makes the grant idempotent even if the event is processed twice
+  const account = session.metadata?.account && session.metadata.account !== metadataKey
+    ? session.metadata.account
+    : licenseKey;
+  const balance = await addCredits(account, credits, session.id);
+  if (balance === null) {
+    log.info('Credit purchase already applied', { sessionId: session.id, licenseKey });
+    return null;
+  }
+  log.info('Credits added', { sessionId: session.id, licenseKey, pack: session.metadata?.pack, credits, balance });
+  return licenseKey;
+}
+
+// ============================================================
+// Invoices
+// ============================================================
+
+async function findInvoiceLicense(invoice: Stripe.Invoice, event: StripeEventRef): Promise<LicenseRecord | null> {
+  const subscriptionId = idOf(invoice.subscription);
+  const license = await findLicenseForStripe(subscriptionId, idOf(invoice.customer), invoice.customer_email);
+  if (!license) {
+    log.warn('No license for invoice', { invoiceId: invoice.id, subscriptionId });
+    return null;
+  }
+  if (isOutOfOrder(license, event) || isRevoked(license, event)) return null;
+  if (isReplacedSubscription(license, subscriptionId)) {
+    log.info('Ignoring invoice for a replaced subscription', { licenseKey: license.key, invoiceId: invoice.id, subscriptionId });
+    return null;
+  }
+  return license;
+}
+
+async function handlePaymentFailed(invoice: Stripe.Invoice, event: StripeEventRef): Promise<string | null> {
+  if (!invoice.subscription) return null;
+  const license = await findInvoiceLicense(invoice, event);
+  if (!license) return null;
+
+  await markPastDue(license);
+  return license.key;
+}
+
+async function handleInvoicePaid(invoice: Stripe.Invoice, event: StripeEventRef): Promise<string | null> {
+  if (!invoice.subscription) return null;
+  const license = await findInvoiceLicense(invoice, event);
+  if (!license) return null;
+
+  const priceId = invoice.lines?.data?.find(line => line.price)?.price?.id;
+  await reinstateLicense(license, priceId ? getPlanForPriceId(priceId) : null);
+  return license.key;
+}
+
+/**
+ * Apply one event. Returns the key of the license it changed, if any.
+ */
+async function processEvent(event: Stripe.Event): Promise<string | null> {
+  switch (event.type) {
+    case 'checkout.session.completed': {
+      const session = event.data.object as Stripe.Checkout.Session;
+      return isCreditPurchase(session)
+        ? handleCreditPurchase(session)
+        : handleCheckoutCompleted(session, event);
+    }
+
+    case 'customer.subscription.updated': {
+      const subscription = event.data.object as Stripe.Subscription;
+      log.info('Subscription updated', {
+        customerId: idOf(subscription.customer),
+        status: subscription.status,
+        subscriptionId: subscription.id,
+      });
+      return handleSubscriptionUpdated(subscription, event);
+    }
+
+    case 'customer.subscription.deleted': {
+      const subscription = event.data.object as Stripe.Subscription;
+      log.info('Subscription cancelled', {
+        customerId: idOf(subscription.customer),
+        subscriptionId: subscription.id,
+      });
+      return handleSubscriptionDeleted(subscription, event);
+    }
+
+    case 'invoice.payment_failed': {
+      const invoice = event.data.object as Stripe.Invoice;
+      log.info('Invoice payment failed', {
+        invoiceId: invoice.id,
+        subscriptionId: idOf(invoice.subscription),
+        attempt: invoice.attempt_count,
+      });
+      return handlePaymentFailed(invoice, event);
+    }
+
+    case 'invoice.paid': {
+      const invoice = event.data.object as Stripe.Invoice;
+      log.info('Invoice paid', { invoiceId: invoice.id, subscriptionId: idOf(invoice.subscription) });
+      return handleInvoicePaid(invoice, event);
+    }
+
+    default:
+      log.debug('Unhandled webhook event type', { eventType: event.type });
+      return null;
+  }
+}
+
 async function getRawBody(req: VercelRequest): Promise<Buffer> {
   return new Promise((resolve, reject) => {
     const chunks: Uint8Array[] = [];
@@ -55,7 +386,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(400).json({ error: 'Missing stripe-signature header' });
     }
 
-    let event;
+    let event: Stripe.Event;
     try {
       event = stripe.webhooks.constructEvent(rawBody, sig, webhookSecret);
     } catch (err: any) {
@@ -65,70 +396,27 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     log.info('Webhook event received', { eventType: event.type, eventId: event.id });
 
-    switch (event.type) {
-      case 'checkout.session.completed': {
-        const session = event.data.object as any;
-        const email = session.customer_email || session.metadata?.email;
-        const plan = session.metadata?.plan || 'starter';
-        const customerId = session.customer;
-        const subscriptionId = session.subscription;
-
-        if (email) {
-          // Check if user already has a license
-          const existing = await getLicenseByEmail(email);
-          if (existing) {
-            // Update existing license
-            await saveSubscription(email, {
-              plan,
-              status: 'active',
-              stripeCustomerId: customerId,
-              stripeSubscriptionId: subscriptionId,
-            });
-            log.info('Updated existing license', { email, plan, licenseKey: existing.key });
-          } else {
-            // Create new license
-            const licenseKey = await createLicense(email, plan, {
-              customerId,
-              subscriptionId,
-            });
-            log.info('Created new license', { email, plan, licenseKey });
-
-            // Send license key email (fire-and-forget, don't block webhook response)
-            sendLicenseKeyEmail(email, licenseKey, plan).catch(err => {
-              log.error('Failed to send license email', { email, error: err.message });
-            });
-          }
-        } else {
-          log.warn('Checkout completed without email', { sessionId: session.id });
-        }
-        break;
-      }
-
-      case 'customer.subscription.updated': {
-        const subscription = event.data.object as any;
-        const customerId = subscription.customer;
-        log.info('Subscription updated', {
-          customerId,
-          status: subscription.status,
-          subscriptionId: subscription.id,
-        });
-        // TODO: Find license by stripeCustomerId and update status/plan
-        break;
-      }
-
-      case 'customer.subscription.deleted': {
-        const subscription = event.data.object as any;
-        const customerId = subscription.customer;
-        log.info('Subscription cancelled', {
-          customerId,
-          subscriptionId: subscription.id,
-        });
-        // TODO: Find license by stripeCustomerId and set status to 'cancelled'
-        break;
-      }
-
-      default:
-        log.debug('Unhandled webhook event type', { eventType: event.type });
+    // --- Idempotency: each event id is applied once ---
+    const claim = await claimEvent(event.id);
+    if (claim === 'processed') {
+      log.info('Duplicate webhook event ignored', { eventType: event.type, eventId: event.id });
+      return res.status(200).json({ received: true, duplicate: true });
+    }
+    if (claim === 'processing') {
+      // Another delivery is still working on it; Stripe will retry
+      log.info('Webhook event already in progress', { eventType: event.type, eventId: event.id });
+      return res.status(409).json({ error: 'Event is already being processed' });
+    }
+
+    try {
+      const licenseKey = await processEvent(event);
+      // Credit purchases don't take part in subscription event ordering
+      const ordered = !(event.type === 'checkout.session.completed' && isCreditPurchase(event.data.object));
+      if (licenseKey) await recordAppliedEvent(licenseKey, event, ordered);
+      await completeEvent(event.id);
+    } catch (error) {
+      await releaseEvent(event.id);
+      throw error;
     }
 
     return res.status(200).json({ received: true });
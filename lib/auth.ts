@@ -0,0 +1,75 @@
+// ============================================================
+// Помощник — Request Authentication
+// ============================================================
+// License keys for customer endpoints, shared secrets for
+// operator endpoints (admin, cron jobs).
+// ============================================================
+
+import type { VercelRequest } from '@vercel/node';
+import { isValidLicenseKey } from './keys';
+import { resolveLicenseKey } from './rekey';
+import { createLogger } from './logger';
+
+const log = createLogger('auth');
+
+function bearerToken(req: VercelRequest): string | null {
+  const auth = req.headers['authorization'];
+  if (!auth || typeof auth !== 'string' || !auth.startsWith('Bearer ')) return null;
+  return auth.slice(7).trim();
+}
+
+/**
+ * License key from X-License-Key or Authorization: Bearer <key>.
+ */
+export function extractLicenseKey(req: VercelRequest): string | null {
+  const xKey = req.headers['x-license-key'];
+  if (xKey && typeof xKey === 'string') return xKey;
+
+  return bearerToken(req);
+}
+
+/**
+ * Lookup key of the license a request authenticates with. Null if
+ * no key was sent or it fails the checksum (a typo), so those never
+ * reach Redis.
+ */
+export async function extractLookupKey(req: VercelRequest): Promise<string | null> {
+  const licenseKey = extractLicenseKey(req);
+  if (!licenseKey || !isValidLicenseKey(licenseKey)) return null;
+  return resolveLicenseKey(licenseKey);
+}
+
+/**
+ * Client IP for public endpoints (first X-Forwarded-For hop, set by
+ * Vercel's edge).
+ */
+export function getClientIp(req: VercelRequest): string {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  const realIp = req.headers['x-real-ip'];
+  return first || (typeof realIp === 'string' && realIp) || 'unknown';
+}
+
+/**
+ * Admin auth: Bearer ADMIN_SECRET (or STRIPE_SECRET_KEY if no ADMIN_SECRET is set).
+ */
+export function isAdminAuthorized(req: VercelRequest): boolean {
+  const token = bearerToken(req);
+  if (!token) return false;
+
+  // Accept ADMIN_SECRET or STRIPE_SECRET_KEY as admin auth
+  const adminSecret = process.env.ADMIN_SECRET || process.env.STRIPE_SECRET_KEY;
+  if (!adminSecret) {
+    log.error('No ADMIN_SECRET or STRIPE_SECRET_KEY configured for admin auth');
+    return false;
+  }
+  return token === adminSecret;
+}
+
+/**
+ * Vercel Cron sends "Authorization: Bearer <CRON_SECRET>" when CRON_SECRET is set.
+ */
+export function isCronAuthorized(req: VercelRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  return !!cronSecret && bearerToken(req) === cronSecret;
+}
@@ -0,0 +1,100 @@
+// ============================================================
+// Помощник — Provider Circuit Breaker (Upstash Redis)
+// ============================================================
+// Remembers across serverless invocations that a provider is
+// failing, so requests skip it (and go to a fallback) instead of
+// waiting for yet another timeout.
+//
+//   closed    — normal operation
+//   open      — too many recent failures; provider is skipped
+//   half_open — cool-down over; one probe request is let through,
+//               its outcome closes or re-opens the circuit
+// ============================================================
+
+import { redisCommand } from './db';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitStatus {
+  state: CircuitState;
+  recentFailures: number;
+  retryInSeconds?: number;
+}
+
+const FAILURE_THRESHOLD = parseInt(process.env.CIRCUIT_FAILURE_THRESHOLD || '5', 10);
+const FAILURE_WINDOW_SECONDS = 60;   // failures older than this are forgotten
+const OPEN_SECONDS = parseInt(process.env.CIRCUIT_OPEN_SECONDS || '30', 10);
+const TRIPPED_SECONDS = OPEN_SECONDS * 10; // how long a tripped circuit needs a probe to close
+const PROBE_SECONDS = 60;            // at most one probe per provider at a time
+
+// Key format: circuit:{provider}:{failures|open|tripped|probe}
+function circuitKey(provider: string, part: string): string {
+  return `circuit:${provider}:${part}`;
+}
+
+/**
+ * Read the circuit state for a provider without changing it.
+ */
+export async function getCircuitStatus(provider: string): Promise<CircuitStatus> {
+  try {
+    const failures = parseInt(await redisCommand('GET', circuitKey(provider, 'failures')), 10) || 0;
+    const openTtl = await redisCommand('TTL', circuitKey(provider, 'open'));
+    if (typeof openTtl === 'number' && openTtl > 0) {
+      return { state: 'open', recentFailures: failures, retryInSeconds: openTtl };
+    }
+    const tripped = await redisCommand('EXISTS', circuitKey(provider, 'tripped'));
+    return { state: tripped ? 'half_open' : 'closed', recentFailures: failures };
+  } catch (error) {
+    console.error('[Circuit] Error reading circuit state:', error);
+    return { state: 'closed', recentFailures: 0 };
+  }
+}
+
+/**
+ * Decide whether a request may be sent to the provider.
+ * In half_open only the caller that wins the probe lock is allowed.
+ * If Redis is unavailable the request is allowed — better to serve than to block.
+ */
+export async function canCallProvider(provider: string): Promise<boolean> {
+  const status = await getCircuitStatus(provider);
+  if (status.state === 'closed') return true;
+  if (status.state === 'open') return false;
+
+  try {
+    const probe = await redisCommand('SET', circuitKey(provider, 'probe'), Date.now(), 'NX', 'EX', PROBE_SECONDS);
+    return probe === 'OK';
+  } catch {
+    return true;
+  }
+}
+
+export async function recordProviderSuccess(provider: string): Promise<void> {
+  try {
+    await redisCommand('DEL', circuitKey(provider, 'failures'), circuitKey(provider, 'tripped'), circuitKey(provider, 'probe'));
+  } catch (error) {
+    console.error('[Circuit] Error recording success:', error);
+  }
+}
+
+/**
+ * Count a failure. Returns the resulting state so callers can log transitions.
+ */
+export async function recordProviderFailure(provider: string): Promise<CircuitState> {
+  try {
+    const failuresKey = circuitKey(provider, 'failures');
+    const failures = await redisCommand('INCR', failuresKey);
+    await redisCommand('EXPIRE', failuresKey, FAILURE_WINDOW_SECONDS);
+
+    // A failed probe re-opens immediately; otherwise open once the threshold is hit
+    const wasProbing = await redisCommand('DEL', circuitKey(provider, 'probe'));
+    if (wasProbing || (typeof failures === 'number' && failures >= FAILURE_THRESHOLD)) {
+      await redisCommand('SET', circuitKey(provider, 'open'), Date.now(), 'EX', OPEN_SECONDS);
+      await redisCommand('SET', circuitKey(provider, 'tripped'), Date.now(), 'EX', TRIPPED_SECONDS);
+      return 'open';
+    }
+    return 'closed';
+  } catch (error) {
+    console.error('[Circuit] Error recording failure:', error);
+    return 'closed';
+  }
+}
@@ -2,11 +2,20 @@
 // Помощник — Plans & Configuration
 // ============================================================
 
+// Models are grouped into tiers so token budgets don't need one entry per model
+export type ModelTier = 'basic' | 'advanced' | 'premium';
+
+export const MODEL_TIERS: ModelTier[] = ['basic', 'advanced', 'premium'];
+
 export interface PlanConfig {
   name: string;
   taskLimit: number;       // Max tasks per month (-1 = unlimited)
   models: string[];        // Allowed model prefixes
   streaming: boolean;      // Whether streaming is allowed
+  vision: boolean;         // Whether image inputs (image_url parts) are allowed
+  maxDevices: number;      // Browsers a key can be activated on (-1 = unlimited)
+  tokenBudgets: Record<ModelTier, number>; // Max tokens per month per tier (-1 = unlimited)
+  monthlyRevenueUsd: number; // Approximate net revenue per license, for cost reports
 }
 
 export const PLANS: Record<string, PlanConfig> = {
@@ -15,27 +24,104 @@ export const PLANS: Record<string, PlanConfig> = {
     taskLimit: 10,
     models: ['gpt-4o-mini', 'gemini-2.0-flash'],
     streaming: true,
+    vision: false,
+    maxDevices: 1,
+    tokenBudgets: { basic: 200_000, advanced: 0, premium: 0 },
+    monthlyRevenueUsd: 0,
   },
   starter: {
     name: 'Стартер',
     taskLimit: 100,
     models: ['gpt-4o-mini', 'gpt-4o', 'gemini-2.0-flash', 'gemini-2.5-flash', 'claude-sonnet-4-20250514', 'deepseek-chat'],
     streaming: true,
+    vision: true,
+    maxDevices: 2,
+    tokenBudgets: { basic: 2_000_000, advanced: 500_000, premium: 0 },
+    monthlyRevenueUsd: 5,
   },
   pro: {
     name: 'Про',
     taskLimit: 500,
     models: ['gpt-4o-mini', 'gpt-4o', 'o3-mini', 'gemini-2.0-flash', 'gemini-2.5-flash', 'gemini-2.5-pro', 'claude-sonnet-4-20250514', 'claude-opus-4-20250514', 'deepseek-chat', 'deepseek-reasoner'],
     streaming: true,
+    vision: true,
+    maxDevices: 3,
+    tokenBudgets: { basic: 10_000_000, advanced: 3_000_000, premium: 1_000_000 },
+    monthlyRevenueUsd: 15,
   },
   business: {
     name: 'Бизнес',
     taskLimit: -1,
     models: ['gpt-4o-mini', 'gpt-4o', 'o3-mini', 'gemini-2.0-flash', 'gemini-2.5-flash', 'gemini-2.5-pro', 'claude-sonnet-4-20250514', 'claude-opus-4-20250514', 'deepseek-chat', 'deepseek-reasoner'],
     streaming: true,
+    vision: true,
+    maxDevices: 5,
+    tokenBudgets: { basic: -1, advanced: -1, premium: -1 },
+    monthlyRevenueUsd: 40,
   },
 };
 
+// Plans from cheapest to most expensive (PLANS is declared in that order)
+export const PLAN_ORDER = Object.keys(PLANS);
+
+// > 0 if `to` is a more expensive plan than `from`
+export function comparePlans(to: string, from: string): number {
+  return PLAN_ORDER.indexOf(to) - PLAN_ORDER.indexOf(from);
+}
+
+// ============================================================
+// Credit Packs (one-time purchases, see lib/credits.ts)
+// ============================================================
+// One credit = one task beyond the plan's monthly taskLimit.
+
+export interface CreditPack {
+  name: string;
+  credits: number;
+}
+
+export const CREDIT_PACKS: Record<string, CreditPack> = {
+  small: { name: '100 задачи', credits: 100 },
+  medium: { name: '500 задачи', credits: 500 },
+  large: { name: '2000 задачи', credits: 2000 },
+};
+
+// ============================================================
+// Model Pricing (USD per 1M tokens, provider list prices)
+// ============================================================
+
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// Keyed by model prefix; the longest matching prefix wins
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.60 },
+  'gpt-4o': { inputPerMillion: 2.50, outputPerMillion: 10.00 },
+  'o3-mini': { inputPerMillion: 1.10, outputPerMillion: 4.40 },
+  'gemini-2.0-flash': { inputPerMillion: 0.10, outputPerMillion: 0.40 },
+  'gemini-2.5-flash': { inputPerMillion: 0.30, outputPerMillion: 2.50 },
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10.00 },
+  'claude-sonnet-4': { inputPerMillion: 3.00, outputPerMillion: 15.00 },
+  'claude-opus-4': { inputPerMillion: 15.00, outputPerMillion: 75.00 },
+  'deepseek-chat': { inputPerMillion: 0.27, outputPerMillion: 1.10 },
+  'deepseek-reasoner': { inputPerMillion: 0.55, outputPerMillion: 2.19 },
+};
+
+export function getModelPrice(model: string): ModelPrice | null {
+  const prefix = Object.keys(MODEL_PRICES)
+    .filter(p => model.startsWith(p))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? MODEL_PRICES[prefix] : null;
+}
+
+// Provider cost of a single request in USD (0 for unpriced models)
+export function calculateCostUsd(model: string, promptTokens: number, completionTokens: number): number {
+  const price = getModelPrice(model);
+  if (!price) return 0;
+  return (promptTokens * price.inputPerMillion + completionTokens * price.outputPerMillion) / 1_000_000;
+}
+
 // Determine the real AI provider from the model name
 export function getProviderFromModel(model: string): 'openai' | 'anthropic' | 'gemini' | 'deepseek' | null {
   if (model.startsWith('gpt-') || model.startsWith('o3-') || model.startsWith('o1-')) {
@@ -53,6 +139,73 @@ export function getProviderFromModel(model: string): 'openai' | 'anthropic' | 'g
   return null;
 }
 
+// Model prefix → tier. Checked in order, so list more specific prefixes first.
+const MODEL_TIER_PREFIXES: Array<[string, ModelTier]> = [
+  ['claude-opus', 'premium'],
+  ['gpt-4o-mini', 'basic'],
+  ['gpt-4o', 'advanced'],
+  ['o3-', 'advanced'],
+  ['o1-', 'advanced'],
+  ['claude-', 'advanced'],
+  ['gemini-2.5-pro', 'advanced'],
+  ['gemini-', 'basic'],
+  ['deepseek-reasoner', 'advanced'],
+  ['deepseek-', 'basic'],
+];
+
+// Determine the token budget tier for a model (unknown models count as advanced)
+export function getModelTier(model: string): ModelTier {
+  const match = MODEL_TIER_PREFIXES.find(([prefix]) => model.startsWith(prefix));
+  return match ? match[1] : 'advanced';
+}
+
+// ============================================================
+// Provider Fallback Routes
+// ============================================================
+// When a model's provider fails with a retryable error (429/5xx)
+// before anything was streamed, the proxy tries these models in
+// order. Keys match by longest model prefix. Override the whole
+// table with the FALLBACK_ROUTES env var (JSON, same shape).
+
+export const FALLBACK_ROUTES: Record<string, string[]> = {
+  'gpt-4o-mini': ['gemini-2.0-flash', 'gemini-2.5-flash'],
+  'gpt-4o': ['claude-sonnet-4-20250514', 'gemini-2.5-pro'],
+  'o3-mini': ['deepseek-reasoner', 'gemini-2.5-pro'],
+  'claude-sonnet-4': ['gpt-4o', 'gemini-2.5-pro'],
+  'claude-opus-4': ['claude-sonnet-4-20250514', 'gemini-2.5-pro'],
+  'gemini-2.0-flash': ['gpt-4o-mini'],
+  'gemini-2.5-flash': ['gpt-4o-mini', 'gemini-2.0-flash'],
+  'gemini-2.5-pro': ['claude-sonnet-4-20250514', 'gpt-4o'],
+  'deepseek-chat': ['gpt-4o-mini', 'gemini-2.5-flash'],
+  'deepseek-reasoner': ['o3-mini', 'gemini-2.5-pro'],
+};
+
+function getFallbackRoutes(): Record<string, string[]> {
+  const override = process.env.FALLBACK_ROUTES;
+  if (!override) return FALLBACK_ROUTES;
+  try {
+    return JSON.parse(override);
+  } catch {
+    console.error('[Config] FALLBACK_ROUTES is not valid JSON — using defaults');
+    return FALLBACK_ROUTES;
+  }
+}
+
+// Fallback models for a request, limited to what the plan allows
+export function getFallbackModels(model: string, plan: string): string[] {
+  const routes = getFallbackRoutes();
+  const prefix = Object.keys(routes)
+    .filter(p => model.startsWith(p))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!prefix) return [];
+
+  return routes[prefix].filter(candidate =>
+    candidate !== model &&
+    getProviderFromModel(candidate) !== null &&
+    isModelAllowed(plan, candidate),
+  );
+}
+
 // Check if a model is allowed for a given plan
 export function isModelAllowed(plan: string, model: string): boolean {
   const planConfig = PLANS[plan] || PLANS.free;
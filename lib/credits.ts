@@ -0,0 +1,77 @@
+// ============================================================
+// Помощник — Task Credits (Upstash Redis)
+// ============================================================
+// Credits are bought as one-time packs (CREDIT_PACKS) and never
+// expire. The proxy spends one credit per task only once the
+// plan's monthly taskLimit is used up.
+//
+// Keys:
+//   credits:{licenseKey}          — balance (integer, no TTL)
+//   credits:grant:{grantId}       — marks a purchase as credited
+// ============================================================
+
+import { redisCommand } from './db';
+
+// Keep grant markers longer than Stripe retries webhooks
+const GRANT_TTL_SECONDS = 400 * 24 * 60 * 60;
+
+// Credit a purchase once, even if its webhook is delivered again
+const ADD_CREDITS_SCRIPT = `
+if redis.call('SET', KEYS[2], ARGV[1], 'NX', 'EX', ARGV[2]) then
+  return redis.call('INCRBY', KEYS[1], ARGV[1])
+end
+return -1
+`;
+
+// Spend one credit if there is one; -1 when the balance is empty
+const CONSUME_CREDIT_SCRIPT = `
+local balance = tonumber(redis.call('GET', KEYS[1]) or '0')
+if balance <= 0 then return -1 end
+return redis.call('DECR', KEYS[1])
+`;
+
+function creditsKey(licenseKey: string): string {
+  return `credits:${licenseKey}`;
+}
+
+function grantKey(grantId: string): string {
+  return `credits:grant:${grantId}`;
+}
+
+function toBalance(value: unknown): number {
+  const n = typeof value === 'number' ? value : parseInt(String(value ?? '0'), 10);
+  return Number.isFinite(n) && n > 0 ? n : 0;
+}
+
+export async function getCreditBalance(licenseKey: string): Promise<number> {
+  return toBalance(await redisCommand('GET', creditsKey(licenseKey)));
+}
+
+/**
+ * Add purchased credits. `grantId` (e.g. the Checkout Session id)
+ * makes the grant idempotent. Returns the new balance, or null if
+ * this grant was already credited.
+ */
+export async function addCredits(licenseKey: string, amount: number, grantId: string): Promise<number | null> {
+  const result = await redisCommand(
+    'EVAL', ADD_CREDITS_SCRIPT, 2, creditsKey(licenseKey), grantKey(grantId), amount, GRANT_TTL_SECONDS,
+  );
+  // redisCommand returns null on a Redis error; throw so the webhook is retried
+  if (result === null || result === undefined) throw new Error('Failed to add credits');
+  return Number(result) < 0 ? null : toBalance(result);
+}
+
+/**
+ * Atomically spend one credit. Returns the remaining balance,
+ * or null if there were no credits left.
+ */
+export async function consumeCredit(licenseKey: string): Promise<number | null> {
+  const result = await redisCommand('EVAL', CONSUME_CREDIT_SCRIPT, 1, creditsKey(licenseKey));
+  const n = typeof result === 'number' ? result : parseInt(String(result ?? '-1'), 10);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+// Give back a credit that was spent on a task that was never served
+export async function refundCredit(licenseKey: string): Promise<number> {
+  return toBalance(await redisCommand('INCR', creditsKey(licenseKey)));
+}
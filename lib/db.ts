@@ -4,16 +4,35 @@
 // Използва Upstash Redis чрез REST API за съхранение на
 // лицензни ключове и абонаменти.
 // Env vars: KV_REST_API_URL, KV_REST_API_TOKEN
+//
+// Licenses are stored under their lookup key, a keyed hash of the
+// license key (lib/keys.ts); the license key itself is never stored.
 // ============================================================
 
+import { generateLicenseKey, hashLicenseKey } from './keys';
+
 export interface LicenseRecord {
-  key: string;
+  key: string;           // Lookup key (hash of the license key), see lib/keys.ts
   email: string;
   plan: string;          // 'free' | 'starter' | 'pro' | 'business'
-  status: string;        // 'active' | 'expired' | 'cancelled'
+  status: string;        // 'active' | 'past_due' | 'expired' | 'cancelled' | 'revoked'
   stripeCustomerId?: string;
   stripeSubscriptionId?: string;
-  tasksUsedThisMonth: number;
+  currentPeriodEnd?: string;  // ISO date, end of the paid Stripe period
+  cancelAtPeriodEnd?: boolean; // Access stops at currentPeriodEnd
+  pastDueSince?: string;       // ISO date of the first failed payment
+  graceEndsAt?: string;        // ISO date; past_due licenses are downgraded after it
+  downgradedFromPlan?: string; // Paid plan lost to non-payment, restored on payment
+  lastStripeEventAt?: number;  // created (unix seconds) of the last webhook event applied
+  scheduledPlan?: string;      // Downgrade waiting for the end of the billing period
+  scheduledPlanAt?: string;    // ISO date when scheduledPlan takes effect
+  orgId?: string;              // Organization this key belongs to (lib/orgs.ts)
+  orgRole?: 'admin' | 'member'; // admin = the org's billing license
+  revokedAt?: string;          // ISO date the key was revoked
+  revokedReason?: string;      // Why it was revoked (support, customer, org admin)
+  rotatedAt?: string;          // ISO date the key was last replaced (lib/rekey.ts)
+  keyDeliveryFailed?: boolean; // The license key email after checkout couldn't be sent
+  tasksUsedThisMonth: number; // Filled from the usage counter on read, never stored
   monthResetDate: string; // ISO date string
   createdAt: string;
   updatedAt: string;
@@ -61,10 +80,115 @@ export async function redisCommand(...args: (string | number)[]): Promise<any> {
   }
 }
 
+// ============================================================
+// Usage Counters (month-scoped, atomic)
+// ============================================================
+// Task usage lives outside the license JSON in its own counter:
+//   tasks:{licenseKey}:{YYYY-MM}
+// INCR/DECR are atomic, so concurrent requests from one license
+// never lose increments, and a new month simply starts a new key
+// (no reset step needed). Old months expire on their own.
+
+const COUNTER_TTL_SECONDS = 100 * 24 * 60 * 60;
+
+// Month bucket (UTC), e.g. "2026-02"
+export function getUsageMonth(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 7);
+}
+
+function taskCounterKey(licenseKey: string, month: string): string {
+  return `tasks:${licenseKey}:${month}`;
+}
+
+function toCount(value: unknown): number {
+  const n = typeof value === 'number' ? value : parseInt(String(value ?? '0'), 10);
+  return Number.isFinite(n) && n > 0 ? n : 0;
+}
+
+/**
+ * Read this month's task count. `legacyCount` seeds the counter
+ * (SET NX) from records written before counters existed.
+ */
+export async function getTaskCount(licenseKey: string, legacyCount = 0): Promise<number> {
+  const key = taskCounterKey(licenseKey, getUsageMonth());
+  const value = await redisCommand('GET', key);
+  if (value !== null && value !== undefined) return toCount(value);
+
+  if (legacyCount > 0) {
+    await redisCommand('SET', key, legacyCount, 'NX', 'EX', COUNTER_TTL_SECONDS);
+    return toCount(await redisCommand('GET', key));
+  }
+  return 0;
+}
+
+/**
+ * Atomically add one task to this month's counter.
+ * Returns the new count and the month it was counted in, so a
+ * later decrement hits the same key even across a month boundary.
+ */
+export async function incrementTaskCount(licenseKey: string): Promise<{ count: number; month: string }> {
+  const month = getUsageMonth();
+  const key = taskCounterKey(licenseKey, month);
+  const count = toCount(await redisCommand('INCR', key));
+  await redisCommand('EXPIRE', key, COUNTER_TTL_SECONDS);
+  return { count, month };
+}
+
+// Give back a task unit that was counted but never served (provider failure, client abort)
+export async function decrementTaskCount(licenseKey: string, month: string): Promise<number> {
+  return toCount(await redisCommand('DECR', taskCounterKey(licenseKey, month)));
+}
+
+// ============================================================
+// License Token Revocation
+// ============================================================
+// /api/ai trusts signed license tokens (lib/tokens.ts) without
+// reading the license. Revoking a license, moving it to another
+// lookup key or writing its plan or status stores the time under
+//   tokenrevoked:{licenseKey}
+//   tokenrevoked:org:{orgId}   (org admin: members inherit its plan)
+// and tokens issued up to then are refused. A marker only has to
+// outlive the tokens issued before it.
+
+export const LICENSE_TOKEN_TTL_SECONDS = parseInt(process.env.LICENSE_TOKEN_TTL_SECONDS || '900', 10);
+
+export async function revokeLicenseTokens(license: Pick<LicenseRecord, 'key' | 'orgId' | 'orgRole'>): Promise<void> {
+  const now = Math.floor(Date.now() / 1000);
+  await redisCommand('SET', `tokenrevoked:${license.key}`, now, 'EX', LICENSE_TOKEN_TTL_SECONDS);
+  if (license.orgId && license.orgRole === 'admin') {
+    await redisCommand('SET', `tokenrevoked:org:${license.orgId}`, now, 'EX', LICENSE_TOKEN_TTL_SECONDS);
+  }
+}
+
+/**
+ * Latest token revocation (Unix seconds) for a license or its
+ * organization; 0 when there is none or Redis couldn't answer.
+ */
+export async function getTokenRevocation(licenseKey: string, orgId?: string): Promise<number> {
+  const markers = await redisCommand('MGET', `tokenrevoked:${licenseKey}`, ...(orgId ? [`tokenrevoked:org:${orgId}`] : []));
+  return Array.isArray(markers) ? Math.max(0, ...markers.map(toCount)) : 0;
+}
+
 // ============================================================
 // License Key Operations
 // ============================================================
 
+// Merge a JSON patch into a stored license inside Redis, so two
+// writers (e.g. webhook and admin) can't overwrite each other's fields.
+// A null value removes the field.
+const PATCH_LICENSE_SCRIPT = `
+local raw = redis.call('GET', KEYS[1])
+if not raw then return nil end
+local record = cjson.decode(raw)
+local patch = cjson.decode(ARGV[1])
+for field, value in pairs(patch) do
+  if value == cjson.null then record[field] = nil else record[field] = value end
+end
+local encoded = cjson.encode(record)
+redis.call('SET', KEYS[1], encoded)
+return encoded
+`;
+
 export async function getLicense(licenseKey: string): Promise<LicenseRecord | null> {
   const data = await redisCommand('GET', `license:${licenseKey}`);
   if (!data) return null;
@@ -72,15 +196,18 @@ export async function getLicense(licenseKey: string): Promise<LicenseRecord | nu
   try {
     const record: LicenseRecord = typeof data === 'string' ? JSON.parse(data) : data;
 
-    // Lazy monthly reset: if the reset date has passed, zero the counter
-    const now = new Date();
-    const resetDate = new Date(record.monthResetDate);
-    if (now >= resetDate) {
-      record.tasksUsedThisMonth = 0;
-      record.monthResetDate = getNextMonthReset();
-      record.updatedAt = now.toISOString();
-      // Persist the reset (fire-and-forget, don't block the read)
-      setLicense(licenseKey, record).catch(() => {});
+    // Records from before usage counters carry their own count for the current month
+    const legacyCount = typeof record.tasksUsedThisMonth === 'number' && new Date(record.monthResetDate) > new Date()
+      ? record.tasksUsedThisMonth
+      : 0;
+
+    record.tasksUsedThisMonth = await getTaskCount(licenseKey, legacyCount);
+    record.monthResetDate = getNextMonthReset();
+
+    // Cancelled at period end and the period is over — don't wait for the webhook
+    if ((record.status === 'active' || record.status === 'past_due') && record.cancelAtPeriodEnd && record.currentPeriodEnd
+      && new Date(record.currentPeriodEnd) <= new Date()) {
+      record.status = 'expired';
     }
 
     return record;
@@ -90,38 +217,92 @@ export async function getLicense(licenseKey: string): Promise<LicenseRecord | nu
 }
 
 export async function setLicense(licenseKey: string, record: LicenseRecord): Promise<void> {
-  const json = JSON.stringify(record);
-  await redisCommand('SET', `license:${licenseKey}`, json);
-  // Also maintain email→key index
-  await redisCommand('SET', `email:${record.email}`, licenseKey);
-}
+  // Usage is kept in its own counter; never persist a stale copy
+  const stored: Partial<LicenseRecord> = { ...record };
+  delete stored.tasksUsedThisMonth;
 
-export async function incrementTaskCount(licenseKey: string): Promise<number> {
-  const record = await getLicense(licenseKey);
-  if (!record) return -1;
+  await redisCommand('SET', `license:${licenseKey}`, JSON.stringify(stored));
+  await indexLicense(licenseKey, record);
+}
 
-  // Check if we need to reset the monthly counter
-  const now = new Date();
-  const resetDate = new Date(record.monthResetDate);
-  if (now >= resetDate) {
-    record.tasksUsedThisMonth = 0;
-    record.monthResetDate = getNextMonthReset();
+// Maintain email→key and Stripe ID→key indexes. Org member keys
+// aren't indexed by email: the email belongs to the member's own
+// license (if any), not to a key issued by their company.
+export async function indexLicense(
+  licenseKey: string,
+  fields: Pick<LicensePatch, 'email' | 'stripeCustomerId' | 'stripeSubscriptionId' | 'orgRole'>,
+): Promise<void> {
+  if (fields.email && fields.orgRole !== 'member') {
+    await redisCommand('SET', `email:${fields.email}`, licenseKey);
+  }
+  if (fields.stripeCustomerId) {
+    await redisCommand('SET', `stripe:customer:${fields.stripeCustomerId}`, licenseKey);
+  }
+  if (fields.stripeSubscriptionId) {
+    await redisCommand('SET', `stripe:subscription:${fields.stripeSubscriptionId}`, licenseKey);
   }
+}
 
-  record.tasksUsedThisMonth += 1;
-  record.updatedAt = now.toISOString();
-  await setLicense(licenseKey, record);
+// Fields set to null are removed from the record
+export type LicensePatch = {
+  [K in Exclude<keyof LicenseRecord, 'key' | 'tasksUsedThisMonth'>]?: LicenseRecord[K] | null;
+};
 
-  return record.tasksUsedThisMonth;
+/**
+ * Atomically update selected fields of a license.
+ * Returns the updated record, or null if the license doesn't exist.
+ */
+export async function updateLicense(
+  licenseKey: string,
+  patch: LicensePatch,
+): Promise<LicenseRecord | null> {
+  const fields = { ...patch, updatedAt: new Date().toISOString() };
+  const result = await redisCommand('EVAL', PATCH_LICENSE_SCRIPT, 1, `license:${licenseKey}`, JSON.stringify(fields));
+  if (!result) return null;
+
+  await indexLicense(licenseKey, patch);
+  if (patch.plan !== undefined || patch.status !== undefined) {
+    await revokeLicenseTokens(typeof result === 'string' ? JSON.parse(result) : result);
+  }
+  return getLicense(licenseKey);
 }
 
-export async function getLicenseByEmail(email: string): Promise<LicenseRecord | null> {
-  const licenseKey = await redisCommand('GET', `email:${email}`);
+async function getLicenseByIndex(indexKey: string): Promise<LicenseRecord | null> {
+  const licenseKey = await redisCommand('GET', indexKey);
   if (!licenseKey) return null;
 
   return getLicense(typeof licenseKey === 'string' ? licenseKey : String(licenseKey));
 }
 
+export async function getLicenseByEmail(email: string): Promise<LicenseRecord | null> {
+  return getLicenseByIndex(`email:${email}`);
+}
+
+export async function getLicenseByStripeCustomer(customerId: string): Promise<LicenseRecord | null> {
+  return getLicenseByIndex(`stripe:customer:${customerId}`);
+}
+
+export async function getLicenseByStripeSubscription(subscriptionId: string): Promise<LicenseRecord | null> {
+  return getLicenseByIndex(`stripe:subscription:${subscriptionId}`);
+}
+
+/**
+ * Lookup keys of all stored licenses (legacy licenses not moved to
+ * hashed storage yet are listed by their license key). Walks the keyspace with SCAN, so it
+ * is meant for batch jobs (reconciliation), not request handling.
+ */
+export async function listLicenseKeys(): Promise<string[]> {
+  const keys: string[] = [];
+  let cursor = '0';
+  do {
+    const result = await redisCommand('SCAN', cursor, 'MATCH', 'license:*', 'COUNT', 500);
+    if (!Array.isArray(result)) break;
+    cursor = String(result[0]);
+    for (const key of result[1] as string[]) keys.push(key.slice('license:'.length));
+  } while (cursor !== '0');
+  return keys;
+}
+
 // Legacy compatibility — used by existing checkout/webhook code
 export async function getSubscription(email: string): Promise<{ plan: string; status: string } | null> {
   const record = await getLicenseByEmail(email);
@@ -135,41 +316,33 @@ export async function saveSubscription(email: string, data: {
   stripeCustomerId?: string;
   stripeSubscriptionId?: string;
 }): Promise<void> {
-  let record = await getLicenseByEmail(email);
+  const record = await getLicenseByEmail(email);
   if (record) {
-    record.plan = data.plan;
-    record.status = data.status;
-    if (data.stripeCustomerId) record.stripeCustomerId = data.stripeCustomerId;
-    if (data.stripeSubscriptionId) record.stripeSubscriptionId = data.stripeSubscriptionId;
-    record.updatedAt = new Date().toISOString();
-    await setLicense(record.key, record);
-  }
-}
-
-// ============================================================
-// License Key Generation
-// ============================================================
-
-export function generateLicenseKey(): string {
-  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No I, O, 0, 1 to avoid confusion
-  const segments = 4;
-  const segmentLength = 5;
-  const parts: string[] = [];
-
-  for (let s = 0; s < segments; s++) {
-    let segment = '';
-    for (let i = 0; i < segmentLength; i++) {
-      segment += chars[Math.floor(Math.random() * chars.length)];
-    }
-    parts.push(segment);
+    // A new subscription starts clean: billing state left by the old one
+    // would otherwise expire or downgrade the license on the old dates
+    const replacesSubscription = !!data.stripeSubscriptionId && data.stripeSubscriptionId !== record.stripeSubscriptionId;
+    await updateLicense(record.key, {
+      plan: data.plan,
+      status: data.status,
+      ...(data.stripeCustomerId && { stripeCustomerId: data.stripeCustomerId }),
+      ...(data.stripeSubscriptionId && { stripeSubscriptionId: data.stripeSubscriptionId }),
+      ...(replacesSubscription && {
+        currentPeriodEnd: null,
+        cancelAtPeriodEnd: null,
+        pastDueSince: null,
+        graceEndsAt: null,
+        downgradedFromPlan: null,
+        scheduledPlan: null,
+        scheduledPlanAt: null,
+      }),
+    });
   }
-
-  return `POM-${parts.join('-')}`; // e.g., POM-A3B5C-D7E9F-G2H4J-K6L8M
 }
 
+// Start of next month (UTC), when this month's usage counter stops applying
 function getNextMonthReset(): string {
   const now = new Date();
-  const next = new Date(now.getFullYear(), now.getMonth() + 1, 1);
+  const next = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
   return next.toISOString();
 }
 
@@ -177,26 +350,54 @@ function getNextMonthReset(): string {
 // Create a new license for a user (called after Stripe checkout)
 // ============================================================
 
+export interface CreatedLicense {
+  licenseKey: string;    // Shown to the customer once (email), never stored
+  record: LicenseRecord;
+}
+
+const MAX_KEY_ATTEMPTS = 5;
+
 export async function createLicense(email: string, plan: string, stripeData?: {
   customerId?: string;
   subscriptionId?: string;
-}): Promise<string> {
-  const key = generateLicenseKey();
+}, membership?: Pick<LicenseRecord, 'orgId' | 'orgRole'>): Promise<CreatedLicense> {
   const now = new Date();
 
   const record: LicenseRecord = {
-    key,
+    key: '',
     email,
     plan,
     status: 'active',
     stripeCustomerId: stripeData?.customerId,
     stripeSubscriptionId: stripeData?.subscriptionId,
+    ...membership,
     tasksUsedThisMonth: 0,
     monthResetDate: getNextMonthReset(),
     createdAt: now.toISOString(),
     updatedAt: now.toISOString(),
   };
+  const stored: Partial<LicenseRecord> = { ...record };
+  delete stored.tasksUsedThisMonth;
+
+  // SET NX so a (vanishingly unlikely) repeated key never overwrites another license
+  for (let attempt = 0; attempt < MAX_KEY_ATTEMPTS; attempt++) {
+    const licenseKey = generateLicenseKey();
+    record.key = stored.key = hashLicenseKey(licenseKey);
+
+    const created = await redisCommand('SET', `license:${record.key}`, JSON.stringify(stored), 'NX');
+    if (created === 'OK') {
+      await indexLicense(record.key, record);
+      return { licenseKey, record };
+    }
+  }
+  throw new Error('Failed to store a new license key');
+}
 
-  await setLicense(key, record);
-  return key;
+/**
+ * Revoke a license key for good. Stripe webhooks and reconciliation
+ * leave revoked licenses alone; the subscription, if any, has to be
+ * cancelled separately.
+ */
+export async function revokeLicense(licenseKey: string, reason: string): Promise<LicenseRecord | null> {
+  return updateLicense(licenseKey, { status: 'revoked', revokedAt: new Date().toISOString(), revokedReason: reason });
 }
@@ -0,0 +1,200 @@
+// ============================================================
+// Помощник — Device Activations (Upstash Redis)
+// ============================================================
+// The extension sends a per-installation ID (X-Device-Id). Each
+// license can be active on PlanConfig.maxDevices devices; a new
+// device beyond that is refused until an old one is deactivated.
+// Devices unused for DEVICE_INACTIVE_DAYS free their slot on
+// their own.
+//
+// Keys:
+//   devices:{licenseKey}              — sorted set, deviceId → last seen (ms)
+//   devices:{licenseKey}:info         — hash, deviceId → { name, activatedAt }
+//   devices:{licenseKey}:deactivations:{YYYY-MM} — counter
+// ============================================================
+
+import type { VercelRequest } from '@vercel/node';
+import { getUsageMonth, redisCommand } from './db';
+import { PLANS } from './config';
+
+export type ActivationResult = 'active' | 'activated' | 'limit_reached';
+
+export interface Device {
+  deviceId: string;
+  name: string | null;
+  activatedAt: string | null;
+  lastSeenAt: string;
+}
+
+export interface ActivationState {
+  deviceId: string | null;
+  status: ActivationResult | 'missing_device_id';
+  devicesUsed: number;
+  maxDevices: number;      // -1 = unlimited
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INACTIVE_DAYS = parseInt(process.env.DEVICE_INACTIVE_DAYS || '60', 10);
+
+// Deactivating is limited so a shared key can't rotate through devices
+export const MAX_DEACTIVATIONS_PER_MONTH = parseInt(process.env.MAX_DEVICE_DEACTIVATIONS || '5', 10);
+
+const DEVICE_ID_PATTERN = /^[A-Za-z0-9_-]{8,128}$/;
+const DEACTIVATIONS_TTL_SECONDS = 40 * 24 * 60 * 60;
+
+// Touch a known device, or add a new one if a slot is free.
+// 1 = already active, 2 = newly activated, 0 = limit reached
+const ACTIVATE_DEVICE_SCRIPT = `
+local cutoff = tonumber(ARGV[4])
+if cutoff > 0 then
+  local stale = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', cutoff)
+  for _, id in ipairs(stale) do redis.call('HDEL', KEYS[2], id) end
+  redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', cutoff)
+end
+if redis.call('ZSCORE', KEYS[1], ARGV[1]) then
+  redis.call('ZADD', KEYS[1], ARGV[2], ARGV[1])
+  return 1
+end
+local max = tonumber(ARGV[3])
+if max >= 0 and redis.call('ZCARD', KEYS[1]) >= max then return 0 end
+redis.call('ZADD', KEYS[1], ARGV[2], ARGV[1])
+redis.call('HSET', KEYS[2], ARGV[1], ARGV[5])
+return 2
+`;
+
+function devicesKey(licenseKey: string): string {
+  return `devices:${licenseKey}`;
+}
+
+function infoKey(licenseKey: string): string {
+  return `devices:${licenseKey}:info`;
+}
+
+function deactivationsKey(licenseKey: string): string {
+  return `devices:${licenseKey}:deactivations:${getUsageMonth()}`;
+}
+
+export function getMaxDevices(plan: string): number {
+  return (PLANS[plan] || PLANS.free).maxDevices;
+}
+
+/**
+ * Device ID from X-Device-Id, or null if missing or malformed.
+ */
+export function extractDeviceId(req: VercelRequest): string | null {
+  const id = req.headers['x-device-id'];
+  return typeof id === 'string' && DEVICE_ID_PATTERN.test(id) ? id : null;
+}
+
+function extractDeviceName(req: VercelRequest): string | null {
+  const name = req.headers['x-device-name'];
+  return typeof name === 'string' && name.trim() ? name.trim().slice(0, 100) : null;
+}
+
+export async function countDevices(licenseKey: string): Promise<number> {
+  const count = await redisCommand('ZCARD', devicesKey(licenseKey));
+  return typeof count === 'number' ? count : parseInt(count, 10) || 0;
+}
+
+/**
+ * Record a request from a device, activating it if there is a free slot.
+ */
+export async function activateDevice(
+  licenseKey: string,
+  deviceId: string,
+  maxDevices: number,
+  name: string | null = null,
+): Promise<ActivationResult> {
+  const now = Date.now();
+  const cutoff = INACTIVE_DAYS > 0 ? now - INACTIVE_DAYS * DAY_MS : 0;
+  const info = JSON.stringify({ name, activatedAt: new Date(now).toISOString() });
+
+  const result = await redisCommand(
+    'EVAL', ACTIVATE_DEVICE_SCRIPT, 2, devicesKey(licenseKey), infoKey(licenseKey),
+    deviceId, now, maxDevices, cutoff, info,
+  );
+  // Redis unavailable: don't lock paying customers out
+  if (result === null || result === undefined) return 'active';
+  const code = Number(result);
+  return code === 2 ? 'activated' : code === 1 ? 'active' : 'limit_reached';
+}
+
+/**
+ * Activate the device a request comes from and describe the outcome.
+ */
+export async function checkDeviceActivation(
+  req: VercelRequest,
+  licenseKey: string,
+  plan: string,
+): Promise<ActivationState> {
+  const deviceId = extractDeviceId(req);
+  const maxDevices = getMaxDevices(plan);
+  const status = deviceId
+    ? await activateDevice(licenseKey, deviceId, maxDevices, extractDeviceName(req))
+    : 'missing_device_id';
+
+  return { deviceId, status, devicesUsed: await countDevices(licenseKey), maxDevices };
+}
+
+// Requests without X-Device-Id come from extension versions that
+// predate activations; they are let through unless REQUIRE_DEVICE_ID=true.
+export function isDeviceAllowed(state: ActivationState): boolean {
+  if (state.status === 'missing_device_id') return process.env.REQUIRE_DEVICE_ID !== 'true';
+  return state.status !== 'limit_reached';
+}
+
+/**
+ * Activated devices, most recently used first.
+ */
+export async function listDevices(licenseKey: string): Promise<Device[]> {
+  const raw = await redisCommand('ZRANGE', devicesKey(licenseKey), 0, -1, 'REV', 'WITHSCORES');
+  const info = await redisCommand('HGETALL', infoKey(licenseKey));
+  if (!Array.isArray(raw)) return [];
+
+  const details = new Map<string, { name?: string | null; activatedAt?: string }>();
+  if (Array.isArray(info)) {
+    for (let i = 0; i + 1 < info.length; i += 2) {
+      try {
+        details.set(String(info[i]), JSON.parse(String(info[i + 1])));
+      } catch {
+        // Ignore unreadable entries
+      }
+    }
+  }
+
+  const devices: Device[] = [];
+  for (let i = 0; i + 1 < raw.length; i += 2) {
+    const deviceId = String(raw[i]);
+    devices.push({
+      deviceId,
+      name: details.get(deviceId)?.name ?? null,
+      activatedAt: details.get(deviceId)?.activatedAt ?? null,
+      lastSeenAt: new Date(Number(raw[i + 1])).toISOString(),
+    });
+  }
+  return devices;
+}
+
+/**
+ * Free a device's slot. Returns false if the device wasn't active.
+ */
+export async function deactivateDevice(licenseKey: string, deviceId: string): Promise<boolean> {
+  const removed = await redisCommand('ZREM', devicesKey(licenseKey), deviceId);
+  await redisCommand('HDEL', infoKey(licenseKey), deviceId);
+  return Number(removed) > 0;
+}
+
+/**
+ * Count a customer-initiated deactivation against this month's limit.
+ * Returns false (and counts nothing) once the limit is used up.
+ */
+export async function useDeactivation(licenseKey: string): Promise<boolean> {
+  const key = deactivationsKey(licenseKey);
+  const count = Number(await redisCommand('INCR', key));
+  await redisCommand('EXPIRE', key, DEACTIVATIONS_TTL_SECONDS);
+  if (count > MAX_DEACTIVATIONS_PER_MONTH) {
+    await redisCommand('DECR', key);
+    return false;
+  }
+  return true;
+}
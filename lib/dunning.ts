@@ -0,0 +1,109 @@
+// ============================================================
+// Помощник — Failed Payments (Dunning)
+// ============================================================
+// When a renewal payment fails the license goes to `past_due`:
+// the proxy keeps serving and /api/verify warns the user. If the
+// grace period runs out before the invoice is paid, the license
+// is downgraded to `free`; a later paid invoice restores the plan.
+// ============================================================
+
+import { LicenseRecord, updateLicense } from './db';
+import { createLogger } from './logger';
+
+const log = createLogger('dunning');
+
+export const GRACE_PERIOD_DAYS = parseInt(process.env.PAYMENT_GRACE_DAYS || '7', 10);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Start the grace period after a failed payment.
+ * Repeated failures keep the original deadline; licenses already
+ * downgraded for non-payment stay on free.
+ */
+export async function markPastDue(license: LicenseRecord, failedAt: Date = new Date()): Promise<LicenseRecord | null> {
+  if (license.status === 'past_due' || license.downgradedFromPlan) return license;
+  if (license.status !== 'active') return license;
+
+  const graceEndsAt = new Date(failedAt.getTime() + GRACE_PERIOD_DAYS * DAY_MS).toISOString();
+  log.info('License past due', { licenseKey: license.key, plan: license.plan, graceEndsAt });
+
+  return updateLicense(license.key, {
+    status: 'past_due',
+    pastDueSince: failedAt.toISOString(),
+    graceEndsAt,
+  });
+}
+
+/**
+ * Downgrade a license that lost its paid plan to non-payment.
+ */
+export async function downgradeToFree(license: LicenseRecord): Promise<LicenseRecord | null> {
+  log.warn('Downgrading license to free after unpaid invoice', {
+    licenseKey: license.key,
+    plan: license.plan,
+    pastDueSince: license.pastDueSince,
+  });
+
+  return updateLicense(license.key, {
+    plan: 'free',
+    status: 'active',
+    downgradedFromPlan: license.downgradedFromPlan || license.plan,
+    pastDueSince: null,
+    graceEndsAt: null,
+    // Free has no billing period that could end
+    cancelAtPeriodEnd: null,
+  });
+}
+
+/**
+ * Restore a past_due or downgraded license once its invoice is paid.
+ * Returns the license unchanged if it isn't in dunning.
+ */
+export async function reinstateLicense(license: LicenseRecord, plan?: string | null): Promise<LicenseRecord | null> {
+  if (license.status !== 'past_due' && !license.downgradedFromPlan) return license;
+
+  const restoredPlan = plan || license.downgradedFromPlan || license.plan;
+  log.info('License reinstated after payment', { licenseKey: license.key, plan: restoredPlan });
+
+  return updateLicense(license.key, {
+    plan: restoredPlan,
+    status: 'active',
+    pastDueSince: null,
+    graceEndsAt: null,
+    downgradedFromPlan: null,
+  });
+}
+
+/**
+ * Whether a past_due license's grace period has run out.
+ */
+export function isGraceExpired(license: LicenseRecord, now: Date = new Date()): boolean {
+  return license.status === 'past_due' && !!license.graceEndsAt && new Date(license.graceEndsAt) <= now;
+}
+
+/**
+ * The license as it will be once an expired grace period is applied,
+ * without saving anything (for dry runs).
+ */
+export function withGracePeriodApplied(license: LicenseRecord): LicenseRecord {
+  if (!isGraceExpired(license)) return license;
+  return {
+    ...license,
+    plan: 'free',
+    status: 'active',
+    downgradedFromPlan: license.downgradedFromPlan || license.plan,
+    pastDueSince: undefined,
+    graceEndsAt: undefined,
+    cancelAtPeriodEnd: undefined,
+  };
+}
+
+/**
+ * Apply an expired grace period. Call after reading a license that
+ * is about to be used for access decisions.
+ */
+export async function resolveGracePeriod(license: LicenseRecord): Promise<LicenseRecord> {
+  if (!isGraceExpired(license)) return license;
+  return (await downgradeToFree(license)) || license;
+}
@@ -21,22 +21,16 @@ const PLAN_NAMES: Record<string, string> = {
 };
 
 /**
- * Send the license key email to a new customer after Stripe checkout.
+ * Send the license key email to a new customer after Stripe checkout
+ * or a free plan signup.
  */
 export async function sendLicenseKeyEmail(
   email: string,
   licenseKey: string,
   plan: string,
 ): Promise<boolean> {
-  const apiKey = process.env.RESEND_API_KEY;
-
-  if (!apiKey) {
-    log.warn('RESEND_API_KEY not set — skipping email send', { email });
-    return false;
-  }
-
-  const fromAddress = process.env.RESEND_FROM || 'Помощник <noreply@pomoshnik.bg>';
   const planName = PLAN_NAMES[plan] || plan;
+  const thanks = plan === 'free' ? 'Благодарим ви за регистрацията.' : 'Благодарим ви за покупката.';
 
   const htmlBody = `
 <!DOCTYPE html>
@@ -50,7 +44,7 @@ export async function sendLicenseKeyEmail(
 
   <div style="background: #f8fafc; border-radius: 12px; padding: 30px; margin: 20px 0;">
     <h2 style="margin-top: 0; color: #1a1a2e;">Добре дошли в план ${planName}! 🎉</h2>
-    <p>Благодарим ви за покупката. Ето вашият лицензен ключ:</p>
+    <p>${thanks} Ето вашият лицензен ключ:</p>
 
     <div style="background: #1a1a2e; color: #22d3ee; padding: 16px 20px; border-radius: 8px; font-family: 'Courier New', monospace; font-size: 18px; text-align: center; letter-spacing: 1px; margin: 20px 0;">
       ${licenseKey}
@@ -90,6 +84,218 @@ export async function sendLicenseKeyEmail(
 
 © ${new Date().getFullYear()} Помощник — pomoshnik.bg`;
 
+  const resendId = await sendEmail(email, `Помощник — Вашият лицензен ключ (${planName})`, htmlBody, textBody);
+  if (resendId === null) return false;
+
+  log.info('License key email sent', { email, plan, resendId });
+  return true;
+}
+
+// Page shell shared by the notification emails: header, one content
+// box under `title` and a footer with `footerNote`
+function renderEmail(title: string, bodyHtml: string, footerNote: string): string {
+  return `
+<!DOCTYPE html>
+<html lang="bg">
+<head><meta charset="utf-8"></head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; color: #1a1a2e;">
+  <div style="text-align: center; padding: 30px 0;">
+    <h1 style="color: #6366f1; margin: 0; font-size: 28px;">🤖 Помощник</h1>
+  </div>
+
+  <div style="background: #f8fafc; border-radius: 12px; padding: 30px; margin: 20px 0;">
+    <h2 style="margin-top: 0; color: #1a1a2e;">${title}</h2>${bodyHtml}
+  </div>
+
+  <div style="text-align: center; padding: 20px 0; color: #94a3b8; font-size: 13px;">
+    <p>${footerNote}</p>
+    <p>© ${new Date().getFullYear()} Помощник — pomoshnik.bg</p>
+  </div>
+</body>
+</html>`;
+}
+
+/**
+ * Send the new key after a key rotation. `oldKeyValidUntil` is set
+ * when the previous key keeps working for an overlap window.
+ */
+export async function sendRotatedKeyEmail(
+  email: string,
+  licenseKey: string,
+  oldKeyValidUntil: string | null,
+): Promise<boolean> {
+  const oldKeyNote = oldKeyValidUntil
+    ? `Старият ключ ще работи до ${new Date(oldKeyValidUntil).toLocaleString('bg-BG', { timeZone: 'Europe/Sofia' })} ч.`
+    : 'Старият ключ вече не работи.';
+
+  const htmlBody = renderEmail(
+    'Нов лицензен ключ',
+    `
+    <p>Лицензният ви ключ беше сменен. Планът, използването и абонаментът ви остават същите. Ето новия ключ:</p>
+
+    <div style="background: #1a1a2e; color: #22d3ee; padding: 16px 20px; border-radius: 8px; font-family: 'Courier New', monospace; font-size: 18px; text-align: center; letter-spacing: 1px; margin: 20px 0;">
+      ${licenseKey}
+    </div>
+
+    <p style="color: #64748b; font-size: 14px;">${oldKeyNote} Въведете новия ключ в настройките на extension-а на всички устройства.</p>`,
+    'Ако не сте поискали смяна на ключа, отговорете на този имейл.',
+  );
+
+  const textBody = `Помощник — Нов лицензен ключ
+
+Лицензният ви ключ беше сменен. Планът, използването и абонаментът ви остават същите.
+
+Новият ви ключ: ${licenseKey}
+
+${oldKeyNote} Въведете новия ключ в настройките на extension-а на всички устройства.
+
+Ако не сте поискали смяна на ключа, отговорете на този имейл.
+
+© ${new Date().getFullYear()} Помощник — pomoshnik.bg`;
+
+  const resendId = await sendEmail(email, 'Помощник — Нов лицензен ключ', htmlBody, textBody);
+  if (resendId === null) return false;
+
+  log.info('Rotated key email sent', { email, resendId });
+  return true;
+}
+
+/**
+ * Send a lost-key recovery link. Opening it issues a new key.
+ */
+export async function sendRecoveryEmail(
+  email: string,
+  link: string,
+  expiresAt: string,
+): Promise<boolean> {
+  const validUntil = new Date(expiresAt).toLocaleString('bg-BG', { timeZone: 'Europe/Sofia' });
+
+  const htmlBody = renderEmail(
+    'Възстановяване на лицензния ключ',
+    `
+    <p>Получихме заявка за възстановяване на лицензния ви ключ. Отворете линка, за да получите нов ключ. Планът, използването и абонаментът ви остават същите, а старият ключ спира да работи.</p>
+
+    <div style="text-align: center; margin: 28px 0;">
+      <a href="${link}" style="background: #6366f1; color: #ffffff; padding: 14px 28px; border-radius: 8px; text-decoration: none; font-weight: 600;">Вземи нов ключ</a>
+    </div>
+
+    <p style="color: #64748b; font-size: 14px;">Линкът може да се използва веднъж и е валиден до ${validUntil} ч.</p>`,
+    'Ако не сте поискали възстановяване, просто игнорирайте този имейл — ключът ви няма да бъде сменен.',
+  );
+
+  const textBody = `Помощник — Възстановяване на лицензния ключ
+
+Получихме заявка за възстановяване на лицензния ви ключ. Отворете линка, за да получите нов ключ. Планът, използването и абонаментът ви остават същите, а старият ключ спира да работи.
+
+${link}
+
+Линкът може да се използва веднъж и е валиден до ${validUntil} ч.
+
+Ако не сте поискали възстановяване, просто игнорирайте този имейл — ключът ви няма да бъде сменен.
+
+© ${new Date().getFullYear()} Помощник — pomoshnik.bg`;
+
+  const resendId = await sendEmail(email, 'Помощник — Възстановяване на лицензния ключ', htmlBody, textBody);
+  if (resendId === null) return false;
+
+  log.info('Recovery email sent', { email, resendId });
+  return true;
+}
+
+/**
+ * Send the verification code for a free plan signup.
+ */
+export async function sendSignupCodeEmail(
+  email: string,
+  code: string,
+  expiresAt: string,
+): Promise<boolean> {
+  const validUntil = new Date(expiresAt).toLocaleString('bg-BG', { timeZone: 'Europe/Sofia' });
+
+  const htmlBody = renderEmail(
+    'Код за потвърждение',
+    `
+    <p>Въведете този код, за да завършите регистрацията за безплатния план:</p>
+
+    <div style="background: #1a1a2e; color: #22d3ee; padding: 16px 20px; border-radius: 8px; font-family: 'Courier New', monospace; font-size: 28px; text-align: center; letter-spacing: 6px; margin: 20px 0;">
+      ${code}
+    </div>
+
+    <p style="color: #64748b; font-size: 14px;">Кодът е валиден до ${validUntil} ч.</p>`,
+    'Ако не сте се регистрирали, просто игнорирайте този имейл.',
+  );
+
+  const textBody = `Помощник — Код за потвърждение
+
+Въведете този код, за да завършите регистрацията за безплатния план: ${code}
+
+Кодът е валиден до ${validUntil} ч.
+
+Ако не сте се регистрирали, просто игнорирайте този имейл.
+
+© ${new Date().getFullYear()} Помощник — pomoshnik.bg`;
+
+  const resendId = await sendEmail(email, `Помощник — Код за потвърждение: ${code}`, htmlBody, textBody);
+  if (resendId === null) return false;
+
+  log.info('Signup code email sent', { email, resendId });
+  return true;
+}
+
+/**
+ * Sent instead of a signup code when the address already has a
+ * license, with a recovery link for its key.
+ */
+export async function sendExistingLicenseEmail(
+  email: string,
+  link: string,
+  expiresAt: string,
+): Promise<boolean> {
+  const validUntil = new Date(expiresAt).toLocaleString('bg-BG', { timeZone: 'Europe/Sofia' });
+
+  const htmlBody = renderEmail(
+    'Вече имате лиценз',
+    `
+    <p>Получихме заявка за регистрация с този email, но за него вече има лиценз. Ако сте изгубили ключа си, отворете линка, за да получите нов. Старият ключ ще спре да работи.</p>
+
+    <div style="text-align: center; margin: 28px 0;">
+      <a href="${link}" style="background: #6366f1; color: #ffffff; padding: 14px 28px; border-radius: 8px; text-decoration: none; font-weight: 600;">Вземи нов ключ</a>
+    </div>
+
+    <p style="color: #64748b; font-size: 14px;">Линкът може да се използва веднъж и е валиден до ${validUntil} ч.</p>`,
+    'Ако ключът ви е у вас, просто игнорирайте този имейл.',
+  );
+
+  const textBody = `Помощник — Вече имате лиценз
+
+Получихме заявка за регистрация с този email, но за него вече има лиценз. Ако сте изгубили ключа си, отворете линка, за да получите нов. Старият ключ ще спре да работи.
+
+${link}
+
+Линкът може да се използва веднъж и е валиден до ${validUntil} ч.
+
+Ако ключът ви е у вас, просто игнорирайте този имейл.
+
+© ${new Date().getFullYear()} Помощник — pomoshnik.bg`;
+
+  const resendId = await sendEmail(email, 'Помощник — Вече имате лиценз', htmlBody, textBody);
+  if (resendId === null) return false;
+
+  log.info('Existing license email sent', { email, resendId });
+  return true;
+}
+
+// Send through Resend. Returns the Resend message id, or null if
+// nothing was sent.
+async function sendEmail(email: string, subject: string, html: string, text: string): Promise<string | null> {
+  const apiKey = process.env.RESEND_API_KEY;
+  if (!apiKey) {
+    log.warn('RESEND_API_KEY not set — skipping email send', { email });
+    return null;
+  }
+
+  const fromAddress = process.env.RESEND_FROM || 'Помощник <noreply@pomoshnik.bg>';
+
   try {
     const response = await fetch(RESEND_API_URL, {
       method: 'POST',
@@ -100,24 +306,23 @@ export async function sendLicenseKeyEmail(
       body: JSON.stringify({
         from: fromAddress,
         to: [email],
-        subject: `Помощник — Вашият лицензен ключ (${planName})`,
-        html: htmlBody,
-        text: textBody,
+        subject,
+        html,
+        text,
       }),
     });
 
     if (!response.ok) {
       const errorData = await response.text();
       log.error('Resend API error', { email, status: response.status, error: errorData });
-      return false;
+      return null;
     }
 
     const result = await response.json();
-    log.info('License key email sent', { email, plan, resendId: result.id });
-    return true;
+    return result.id;
 
   } catch (err: any) {
     log.error('Failed to send email', { email, error: err.message });
-    return false;
+    return null;
   }
 }
@@ -0,0 +1,107 @@
+// ============================================================
+// Помощник — Stripe Webhook Event Store (Upstash Redis)
+// ============================================================
+// Stripe retries deliveries and doesn't guarantee order. Every
+// event id is claimed before processing so duplicates are ignored,
+// and each license keeps a ledger of the events applied to it.
+// ============================================================
+
+import { LicenseRecord, getLicense, redisCommand, updateLicense } from './db';
+
+export type EventClaim = 'claimed' | 'processing' | 'processed';
+
+export interface LedgerEntry {
+  eventId: string;
+  type: string;
+  created: string;     // When Stripe created the event (ISO)
+  appliedAt: string;   // When we applied it (ISO)
+  plan: string;        // License state after applying
+  status: string;
+}
+
+export interface StripeEventRef {
+  id: string;
+  type: string;
+  created: number;     // Unix seconds
+}
+
+const PROCESSED_TTL_SECONDS = 30 * 24 * 60 * 60; // Stripe retries for up to 3 days
+const PROCESSING_TTL_SECONDS = 5 * 60;           // Longer than a function can run
+const LEDGER_MAX_ENTRIES = 200;
+
+function eventKey(eventId: string): string {
+  return `webhook:event:${eventId}`;
+}
+
+function ledgerKey(licenseKey: string): string {
+  return `ledger:${licenseKey}`;
+}
+
+/**
+ * Claim an event for processing. Only one delivery gets 'claimed';
+ * the others learn whether it is still running or already done.
+ */
+export async function claimEvent(eventId: string): Promise<EventClaim> {
+  const claimed = await redisCommand('SET', eventKey(eventId), 'processing', 'NX', 'EX', PROCESSING_TTL_SECONDS);
+  if (claimed === 'OK') return 'claimed';
+
+  const state = await redisCommand('GET', eventKey(eventId));
+  return state === 'processed' ? 'processed' : 'processing';
+}
+
+export async function completeEvent(eventId: string): Promise<void> {
+  await redisCommand('SET', eventKey(eventId), 'processed', 'EX', PROCESSED_TTL_SECONDS);
+}
+
+// Processing failed — let Stripe's retry claim it again
+export async function releaseEvent(eventId: string): Promise<void> {
+  await redisCommand('DEL', eventKey(eventId));
+}
+
+/**
+ * True if a newer event has already been applied to this license.
+ * Events from the same second are allowed (Stripe timestamps are coarse).
+ */
+export function isStaleEvent(license: LicenseRecord, event: StripeEventRef): boolean {
+  return typeof license.lastStripeEventAt === 'number' && event.created < license.lastStripeEventAt;
+}
+
+/**
+ * Remember that an event was applied to a license. Events that
+ * don't touch the subscription (credit purchases) pass
+ * `ordered = false` so they don't make older subscription
+ * events look stale.
+ */
+export async function recordAppliedEvent(licenseKey: string, event: StripeEventRef, ordered = true): Promise<void> {
+  const license = ordered
+    ? await updateLicense(licenseKey, { lastStripeEventAt: event.created })
+    : await getLicense(licenseKey);
+  if (!license) return;
+
+  const entry: LedgerEntry = {
+    eventId: event.id,
+    type: event.type,
+    created: new Date(event.created * 1000).toISOString(),
+    appliedAt: new Date().toISOString(),
+    plan: license.plan,
+    status: license.status,
+  };
+  await redisCommand('LPUSH', ledgerKey(licenseKey), JSON.stringify(entry));
+  await redisCommand('LTRIM', ledgerKey(licenseKey), 0, LEDGER_MAX_ENTRIES - 1);
+}
+
+/**
+ * Most recent events applied to a license, newest first.
+ */
+export async function getLicenseEvents(licenseKey: string, limit = 50): Promise<LedgerEntry[]> {
+  const raw = await redisCommand('LRANGE', ledgerKey(licenseKey), 0, limit - 1);
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap(item => {
+    try {
+      return [typeof item === 'string' ? JSON.parse(item) : item];
+    } catch {
+      return [];
+    }
+  });
+}
@@ -0,0 +1,77 @@
+// ============================================================
+// Помощник — License Key Format and Hashing
+// ============================================================
+// A license key is POM- plus four random segments and a checksum
+// segment, e.g. POM-A3B5C-D7E9F-G2H4J-K6L8M-QX4ZT. The checksum
+// lets us reject typos without touching Redis.
+//
+// The key itself is never stored. Licenses are stored and indexed
+// under a keyed hash of it (the lookup key, HMAC-SHA256 with
+// LICENSE_KEY_SECRET), so read access to Redis doesn't reveal any
+// customer's credential. Changing LICENSE_KEY_SECRET makes every
+// existing key unusable.
+//
+// Keys issued before hashing have no checksum segment and were
+// stored as-is; lib/rekey.ts moves them to their lookup key.
+// ============================================================
+
+import { createHash, createHmac, randomBytes } from 'crypto';
+
+const KEY_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No I, O, 0, 1 to avoid confusion
+const SEGMENTS = 4;
+const SEGMENT_LENGTH = 5;
+
+const KEY_PATTERN = /^POM-([A-HJ-NP-Z2-9]{5}(?:-[A-HJ-NP-Z2-9]{5}){3})(?:-([A-HJ-NP-Z2-9]{5}))?$/;
+
+// 32 symbols, so a byte's low 5 bits pick one without bias
+function toSymbols(bytes: Buffer): string {
+  let out = '';
+  for (const byte of bytes) out += KEY_ALPHABET[byte & 31];
+  return out;
+}
+
+function checksumSegment(body: string): string {
+  return toSymbols(createHash('sha256').update(body).digest().subarray(0, SEGMENT_LENGTH));
+}
+
+export function normalizeLicenseKey(key: string): string {
+  return key.trim().toUpperCase();
+}
+
+export function generateLicenseKey(): string {
+  const symbols = toSymbols(randomBytes(SEGMENTS * SEGMENT_LENGTH));
+  const parts: string[] = [];
+  for (let s = 0; s < SEGMENTS; s++) {
+    parts.push(symbols.slice(s * SEGMENT_LENGTH, (s + 1) * SEGMENT_LENGTH));
+  }
+
+  const body = parts.join('-');
+  return `POM-${body}-${checksumSegment(body)}`;
+}
+
+/**
+ * Whether a key is well formed: a current key with a matching
+ * checksum, or a legacy key (four segments, no checksum).
+ */
+export function isValidLicenseKey(key: string): boolean {
+  const match = KEY_PATTERN.exec(normalizeLicenseKey(key));
+  if (!match) return false;
+  return !match[2] || match[2] === checksumSegment(match[1]);
+}
+
+// Issued before keys carried a checksum and were stored hashed
+export function isLegacyLicenseKey(key: string): boolean {
+  const match = KEY_PATTERN.exec(normalizeLicenseKey(key));
+  return !!match && !match[2];
+}
+
+/**
+ * Storage key for a license key (keyed hash, hex).
+ */
+export function hashLicenseKey(key: string): string {
+  const secret = process.env.LICENSE_KEY_SECRET;
+  if (!secret) {
+    throw new Error('LICENSE_KEY_SECRET is not configured. It is required to look up license keys.');
+  }
+  return createHmac('sha256', secret).update(normalizeLicenseKey(key)).digest('hex');
+}
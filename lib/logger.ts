@@ -19,8 +19,11 @@ interface LogEntry {
 }
 
 // Mask license key for logging: POM-XXXXX-...-XXXXX → POM-XXX**-...-*****
+// Lookup keys (lib/keys.ts) aren't credentials and are logged in full,
+// so log lines can be matched with /api/admin lookups.
 function maskLicenseKey(key: string): string {
   if (!key || key.length < 10) return '***';
+  if (!key.startsWith('POM-')) return key;
   return key.slice(0, 7) + '**-****-****-*****';
 }
 
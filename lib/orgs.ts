@@ -0,0 +1,241 @@
+// ============================================================
+// Помощник — Organizations (Upstash Redis)
+// ============================================================
+// An organization owns one Stripe subscription with a seat
+// quantity. Its admin license holds the subscription (as any
+// customer license does); member keys are ordinary licenses with
+// orgId set, and take plan and status from the admin license.
+//
+// Usage policy:
+//   split  — every member has one seat's allowance (own counters)
+//   shared — all members draw from one pool of seats × allowance,
+//            counted under the account key org:{orgId}
+//
+// Keys:
+//   org:{orgId}           — OrganizationRecord (JSON)
+//   org:{orgId}:members   — set of license lookup keys, admin included
+//                           (plus pending:{id} while a member key is issued)
+// ============================================================
+
+import { randomBytes } from 'crypto';
+import { CreatedLicense, LicenseRecord, createLicense, getLicense, getTaskCount, redisCommand, revokeLicense, updateLicense } from './db';
+import { ModelTier, PLANS } from './config';
+import { resolveGracePeriod } from './dunning';
+import { createLogger } from './logger';
+
+const log = createLogger('orgs');
+
+export type UsagePolicy = 'shared' | 'split';
+
+export const USAGE_POLICIES: UsagePolicy[] = ['shared', 'split'];
+
+export interface OrganizationRecord {
+  id: string;
+  name: string;
+  adminKey: string;        // Lookup key of the license that holds the Stripe subscription
+  seats: number;           // Stripe subscription quantity
+  usagePolicy: UsagePolicy;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Where a license's tasks, tokens and credits are counted
+export interface UsageAccount {
+  key: string;             // License lookup key, or org:{orgId} for a shared pool
+  taskLimit: number;       // -1 = unlimited
+  tokenBudgets: Record<ModelTier, number>;
+}
+
+// Billing state members take over from the admin license
+const INHERITED_FIELDS = [
+  'plan', 'status', 'pastDueSince', 'graceEndsAt', 'downgradedFromPlan',
+  'currentPeriodEnd', 'cancelAtPeriodEnd', 'scheduledPlan', 'scheduledPlanAt',
+] as const;
+
+function orgKey(orgId: string): string {
+  return `org:${orgId}`;
+}
+
+function membersKey(orgId: string): string {
+  return `org:${orgId}:members`;
+}
+
+// Take a seat in KEYS[1] for ARGV[2] if fewer than ARGV[1] are taken,
+// so concurrent requests can't issue more member keys than seats
+const RESERVE_SEAT_SCRIPT = `
+if redis.call('SCARD', KEYS[1]) >= tonumber(ARGV[1]) then return 0 end
+return redis.call('SADD', KEYS[1], ARGV[2])
+`;
+
+const PENDING_SEAT_PREFIX = 'pending:';
+
+function generateOrgId(): string {
+  return `org_${randomBytes(8).toString('hex')}`;
+}
+
+// The given fields of a record, undefined ones included
+function pickFields<K extends keyof LicenseRecord>(record: LicenseRecord, fields: readonly K[]): Pick<LicenseRecord, K> {
+  const picked = {} as Pick<LicenseRecord, K>;
+  for (const field of fields) picked[field] = record[field];
+  return picked;
+}
+
+// A per-seat limit times the number of seats (-1 stays unlimited)
+function scaleLimit(limit: number, seats: number): number {
+  return limit === -1 ? -1 : limit * seats;
+}
+
+export async function getOrganization(orgId: string): Promise<OrganizationRecord | null> {
+  const data = await redisCommand('GET', orgKey(orgId));
+  if (!data) return null;
+  try {
+    return typeof data === 'string' ? JSON.parse(data) : data;
+  } catch {
+    return null;
+  }
+}
+
+export async function updateOrganization(
+  orgId: string,
+  patch: Partial<Pick<OrganizationRecord, 'name' | 'seats' | 'usagePolicy'>>,
+): Promise<OrganizationRecord | null> {
+  const org = await getOrganization(orgId);
+  if (!org) return null;
+
+  const updated = { ...org, ...patch, updatedAt: new Date().toISOString() };
+  await redisCommand('SET', orgKey(orgId), JSON.stringify(updated));
+  return updated;
+}
+
+/**
+ * Turn a customer license into the admin license of a new organization.
+ */
+export async function createOrganization(
+  admin: LicenseRecord,
+  name: string,
+  seats: number,
+): Promise<OrganizationRecord> {
+  const now = new Date().toISOString();
+  const org: OrganizationRecord = {
+    id: generateOrgId(),
+    name,
+    adminKey: admin.key,
+    seats: Math.max(1, seats),
+    usagePolicy: 'shared',
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await redisCommand('SET', orgKey(org.id), JSON.stringify(org));
+  await redisCommand('SADD', membersKey(org.id), admin.key);
+  await updateLicense(admin.key, { orgId: org.id, orgRole: 'admin' });
+
+  log.info('Organization created', { orgId: org.id, licenseKey: admin.key, seats: org.seats });
+  return org;
+}
+
+export async function listMemberKeys(orgId: string): Promise<string[]> {
+  const keys = await redisCommand('SMEMBERS', membersKey(orgId));
+  return Array.isArray(keys) ? keys.map(String).filter(key => !key.startsWith(PENDING_SEAT_PREFIX)) : [];
+}
+
+/**
+ * Issue a member key. Returns null when every seat is taken.
+ */
+export async function issueMemberKey(org: OrganizationRecord, email: string): Promise<CreatedLicense | null> {
+  // The seat is held by a placeholder until the license exists
+  const pending = `${PENDING_SEAT_PREFIX}${randomBytes(8).toString('hex')}`;
+  const reserved = await redisCommand('EVAL', RESERVE_SEAT_SCRIPT, 1, membersKey(org.id), org.seats, pending);
+  if (Number(reserved) !== 1) return null;
+
+  let created: CreatedLicense;
+  try {
+    const admin = await getLicense(org.adminKey);
+    created = await createLicense(email, admin?.plan || 'free', undefined, { orgId: org.id, orgRole: 'member' });
+  } catch (err) {
+    await redisCommand('SREM', membersKey(org.id), pending);
+    throw err;
+  }
+  await redisCommand('SADD', membersKey(org.id), created.record.key);
+  await redisCommand('SREM', membersKey(org.id), pending);
+
+  log.info('Member key issued', { orgId: org.id, licenseKey: created.record.key });
+  return created;
+}
+
+/**
+ * Point the organization at a license's new lookup key (see lib/rekey.ts).
+ */
+export async function replaceMemberKey(orgId: string, fromKey: string, toKey: string): Promise<void> {
+  if (Number(await redisCommand('SREM', membersKey(orgId), fromKey)) > 0) {
+    await redisCommand('SADD', membersKey(orgId), toKey);
+  }
+
+  const org = await getOrganization(orgId);
+  if (org?.adminKey === fromKey) {
+    await redisCommand('SET', orgKey(orgId), JSON.stringify({ ...org, adminKey: toKey, updatedAt: new Date().toISOString() }));
+  }
+}
+
+/**
+ * Revoke a member key; its seat becomes free again.
+ */
+export async function revokeMemberKey(
+  org: OrganizationRecord,
+  licenseKey: string,
+  reason = 'Revoked by the organization admin',
+): Promise<LicenseRecord | null> {
+  const revoked = await revokeLicense(licenseKey, reason);
+  await redisCommand('SREM', membersKey(org.id), licenseKey);
+
+  log.info('Member key revoked', { orgId: org.id, licenseKey });
+  return revoked;
+}
+
+/**
+ * Revoke any license key; a member key also frees its seat.
+ */
+export async function revokeLicenseKey(license: LicenseRecord, reason: string): Promise<LicenseRecord | null> {
+  const org = license.orgRole === 'member' && license.orgId ? await getOrganization(license.orgId) : null;
+  return org ? revokeMemberKey(org, license.key, reason) : revokeLicense(license.key, reason);
+}
+
+/**
+ * Members get the plan and status of the organization's admin
+ * license, so billing only has to update that one record.
+ */
+export async function resolveOrgLicense(license: LicenseRecord): Promise<LicenseRecord> {
+  if (!license.orgId || license.orgRole !== 'member' || license.status === 'revoked') return license;
+
+  const org = await getOrganization(license.orgId);
+  const stored = org && await getLicense(org.adminKey);
+  if (!stored) return { ...license, status: 'cancelled' };
+
+  const admin = await resolveGracePeriod(stored);
+  return { ...license, ...pickFields(admin, INHERITED_FIELDS) };
+}
+
+/**
+ * Counters and limits that apply to a license's usage.
+ */
+export async function getUsageAccount(license: LicenseRecord): Promise<UsageAccount> {
+  const planConfig = PLANS[license.plan] || PLANS.free;
+  const own: UsageAccount = { key: license.key, taskLimit: planConfig.taskLimit, tokenBudgets: planConfig.tokenBudgets };
+  if (!license.orgId) return own;
+
+  const org = await getOrganization(license.orgId);
+  if (!org || org.usagePolicy !== 'shared') return own;
+
+  return {
+    key: `org:${org.id}`,
+    taskLimit: scaleLimit(planConfig.taskLimit, org.seats),
+    tokenBudgets: Object.fromEntries(
+      Object.entries(planConfig.tokenBudgets).map(([tier, budget]) => [tier, scaleLimit(budget, org.seats)]),
+    ) as Record<ModelTier, number>,
+  };
+}
+
+// Tasks counted for an account this month
+export async function getAccountTaskCount(account: UsageAccount, license: LicenseRecord): Promise<number> {
+  return account.key === license.key ? license.tasksUsedThisMonth : getTaskCount(account.key);
+}
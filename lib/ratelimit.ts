@@ -1,7 +1,8 @@
 // ============================================================
 // Помощник — Rate Limiter (Upstash Redis Sliding Window)
 // ============================================================
-// Per-license-key rate limiting using Redis sorted sets.
+// Per-license-key rate limiting using Redis sorted sets, plus
+// fixed-window attempt limits for public endpoints (per IP / email).
 // No extra npm packages — uses the same REST API as db.ts.
 // ============================================================
 
@@ -24,6 +25,13 @@ const RATE_LIMITS: Record<string, number> = {
 
 const WINDOW_MS = 60_000; // 1 minute sliding window
 
+/**
+ * Requests per minute allowed on a plan.
+ */
+export function getRateLimit(plan: string): number {
+  return RATE_LIMITS[plan] ?? RATE_LIMITS.free;
+}
+
 /**
  * Check and consume a rate limit token for the given license key.
  * Uses Redis sorted set with timestamp scores for a sliding window.
@@ -36,7 +44,7 @@ export async function checkRateLimit(
   licenseKey: string,
   plan: string,
 ): Promise<RateLimitResult> {
-  const limit = RATE_LIMITS[plan] ?? RATE_LIMITS.free;
+  const limit = getRateLimit(plan);
   const now = Date.now();
   const windowStart = now - WINDOW_MS;
   const key = `ratelimit:${licenseKey}`;
@@ -94,3 +102,36 @@ export async function checkRateLimit(
     };
   }
 }
+
+/**
+ * Fixed-window attempt limit for public endpoints without a license
+ * (e.g. per IP or per email address).
+ *
+ * Key format: ratelimit:{scope}:{id}, expiring with the window.
+ */
+export async function checkAttemptLimit(
+  scope: string,
+  id: string,
+  limit: number,
+  windowSeconds: number,
+): Promise<RateLimitResult> {
+  const key = `ratelimit:${scope}:${id}`;
+
+  const count = await redisCommand('INCR', key);
+  if (typeof count !== 'number') {
+    // Redis down — same policy as checkRateLimit: serve rather than block
+    return { allowed: true, remaining: limit, limit, resetInSeconds: windowSeconds };
+  }
+  if (count === 1) await redisCommand('EXPIRE', key, windowSeconds);
+
+  if (count > limit) {
+    const ttl = await redisCommand('TTL', key);
+    return {
+      allowed: false,
+      remaining: 0,
+      limit,
+      resetInSeconds: typeof ttl === 'number' && ttl > 0 ? ttl : windowSeconds,
+    };
+  }
+  return { allowed: true, remaining: limit - count, limit, resetInSeconds: windowSeconds };
+}
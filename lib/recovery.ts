@@ -0,0 +1,54 @@
+// ============================================================
+// Помощник — Lost License Key Recovery
+// ============================================================
+// A customer who lost their key asks for a recovery link by email
+// (POST /api/recover). The link carries a one-time token that
+// expires after RECOVERY_LINK_TTL_MINUTES; redeeming it issues a new
+// key for the license (the old one can't be shown — only its hash
+// is stored, see lib/keys.ts).
+//
+// Only the SHA-256 of the token is kept:
+//   recovery:{sha256(token)} → license lookup key (with a TTL)
+//
+// Env vars: RECOVERY_URL (page that redeems the token),
+//           RECOVERY_LINK_TTL_MINUTES (default 30)
+// ============================================================
+
+import { createHash, randomBytes } from 'crypto';
+import { redisCommand } from './db';
+
+export const RECOVERY_LINK_TTL_MINUTES = parseInt(process.env.RECOVERY_LINK_TTL_MINUTES || '30', 10);
+
+export interface RecoveryLink {
+  url: string;
+  expiresAt: string;  // ISO date
+}
+
+function recoveryKey(token: string): string {
+  return `recovery:${createHash('sha256').update(token).digest('hex')}`;
+}
+
+/**
+ * One-time link that reissues the key of the license stored under
+ * `licenseKey` (its lookup key).
+ */
+export async function createRecoveryLink(licenseKey: string): Promise<RecoveryLink> {
+  const token = randomBytes(32).toString('base64url');
+  const seconds = RECOVERY_LINK_TTL_MINUTES * 60;
+  await redisCommand('SET', recoveryKey(token), licenseKey, 'EX', seconds);
+
+  // The link opens a page that POSTs the token back, so mail scanners
+  // following the link can't use it up
+  const url = new URL(process.env.RECOVERY_URL || 'https://pomoshnik.tech/recover');
+  url.searchParams.set('token', token);
+  return { url: url.toString(), expiresAt: new Date(Date.now() + seconds * 1000).toISOString() };
+}
+
+/**
+ * Lookup key a recovery token was issued for, or null if it is
+ * unknown, expired or already used. A token works only once.
+ */
+export async function redeemRecoveryToken(token: string): Promise<string | null> {
+  const licenseKey = await redisCommand('GETDEL', recoveryKey(token));
+  return licenseKey ? String(licenseKey) : null;
+}
@@ -0,0 +1,181 @@
+// ============================================================
+// Помощник — Moving a License to Another Lookup Key
+// ============================================================
+// Everything kept per license is stored under its lookup key
+// (lib/keys.ts). A license moves to another lookup key when:
+//   - its key is rotated: a new key replaces the old one, and the
+//     old one may keep working for an overlap window
+//     (keyalias:{old lookup key} → new lookup key, with a TTL)
+//   - it was issued before keys were hashed and is still stored
+//     under the license key itself; it moves the first time the key
+//     is used, or in bulk via POST /api/admin { action: 'migrate-keys' }
+//
+// Moved with the record: task and token counters of the last few
+// months (older ones have expired), credits, devices and the
+// webhook ledger. Indexes, organization membership and the free
+// plan signup of the address are re-pointed afterwards.
+// ============================================================
+
+import { CreatedLicense, LicenseRecord, getUsageMonth, indexLicense, listLicenseKeys, redisCommand, revokeLicenseTokens, updateLicense } from './db';
+import { generateLicenseKey, hashLicenseKey, isLegacyLicenseKey, isValidLicenseKey, normalizeLicenseKey } from './keys';
+import { replaceMemberKey } from './orgs';
+import { replaceSignupKey } from './signup';
+import { rekeyCostLicenses } from './usage';
+import { createLogger } from './logger';
+
+const log = createLogger('rekey');
+
+// Usage counters live 100 days, so at most four month buckets exist
+const COUNTER_MONTHS = 4;
+const MAX_KEY_ATTEMPTS = 5;
+
+export const MAX_OVERLAP_HOURS = 72;
+
+export interface RotatedLicense extends CreatedLicense {
+  oldKeyValidUntil: string | null;  // ISO date; null = the old key stopped working
+}
+
+// Move the record (rewriting its key field) and every per-license
+// key that exists. Refuses to overwrite a license already stored
+// under the destination. Returns the moved record.
+const MOVE_LICENSE_SCRIPT = `
+local raw = redis.call('GET', KEYS[1])
+if not raw or redis.call('EXISTS', KEYS[2]) == 1 then return nil end
+local record = cjson.decode(raw)
+record.key = ARGV[1]
+local encoded = cjson.encode(record)
+redis.call('SET', KEYS[2], encoded)
+redis.call('DEL', KEYS[1])
+for i = 3, #KEYS, 2 do
+  if redis.call('EXISTS', KEYS[i]) == 1 then redis.call('RENAME', KEYS[i], KEYS[i + 1]) end
+end
+return encoded
+`;
+
+function recentMonths(): string[] {
+  const now = new Date();
+  const months: string[] = [];
+  for (let i = 0; i < COUNTER_MONTHS; i++) {
+    months.push(getUsageMonth(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - i, 1))));
+  }
+  return months;
+}
+
+// Per-license keys besides the record; prefixes as in db, usage,
+// credits, devices, events and ratelimit
+function licenseDataKeys(licenseKey: string): string[] {
+  const keys = [
+    `credits:${licenseKey}`,
+    `devices:${licenseKey}`,
+    `devices:${licenseKey}:info`,
+    `ledger:${licenseKey}`,
+    `ratelimit:${licenseKey}`,
+  ];
+  for (const month of recentMonths()) {
+    keys.push(`tasks:${licenseKey}:${month}`, `usage:${licenseKey}:${month}`);
+  }
+  keys.push(`devices:${licenseKey}:deactivations:${getUsageMonth()}`);
+  return keys;
+}
+
+function aliasKey(licenseKey: string): string {
+  return `keyalias:${licenseKey}`;
+}
+
+/**
+ * Move a license and its data from one lookup key to another.
+ * Returns the moved record, or null if there was nothing to move
+ * (or the destination is taken).
+ */
+export async function moveLicense(fromKey: string, toKey: string): Promise<LicenseRecord | null> {
+  const from = licenseDataKeys(fromKey);
+  const to = licenseDataKeys(toKey);
+  const pairs = from.flatMap((key, i) => [key, to[i]]);
+
+  const result = await redisCommand(
+    'EVAL', MOVE_LICENSE_SCRIPT, 2 + pairs.length, `license:${fromKey}`, `license:${toKey}`, ...pairs, toKey,
+  );
+  if (!result) return null;
+
+  const record: LicenseRecord = typeof result === 'string' ? JSON.parse(result) : result;
+  await revokeLicenseTokens({ key: fromKey });
+  await indexLicense(toKey, record);
+  if (record.orgId) await replaceMemberKey(record.orgId, fromKey, toKey);
+  if (record.email) await replaceSignupKey(record.email, fromKey, toKey);
+  return record;
+}
+
+/**
+ * Replace a license's key with a new one. Usage, devices, credits,
+ * Stripe IDs and indexes carry over; the old key keeps working for
+ * `overlapHours`, or stops at once. Returns null if the license is
+ * gone (e.g. rotated concurrently).
+ */
+export async function rotateLicenseKey(license: LicenseRecord, overlapHours = 0): Promise<RotatedLicense | null> {
+  for (let attempt = 0; attempt < MAX_KEY_ATTEMPTS; attempt++) {
+    const licenseKey = generateLicenseKey();
+    const newKey = hashLicenseKey(licenseKey);
+
+    if (!(await moveLicense(license.key, newKey))) {
+      // Nothing moved: the new key is taken (try another) or the license is gone
+      if (!(await redisCommand('EXISTS', `license:${license.key}`))) return null;
+      continue;
+    }
+
+    const now = new Date();
+    const record = await updateLicense(newKey, { rotatedAt: now.toISOString() });
+    let oldKeyValidUntil: string | null = null;
+    if (overlapHours > 0) {
+      const seconds = Math.round(Math.min(overlapHours, MAX_OVERLAP_HOURS) * 60 * 60);
+      await redisCommand('SET', aliasKey(license.key), newKey, 'EX', seconds);
+      oldKeyValidUntil = new Date(now.getTime() + seconds * 1000).toISOString();
+    }
+
+    log.info('License key rotated', { licenseKey: newKey, previousKey: license.key, oldKeyValidUntil });
+    return record && { licenseKey, record, oldKeyValidUntil };
+  }
+  throw new Error('Failed to store a new license key');
+}
+
+/**
+ * Lookup key for a license key from a request. A legacy key still
+ * stored as-is is moved to its lookup key first; a rotated key
+ * still within its overlap window resolves to the new one.
+ */
+export async function resolveLicenseKey(licenseKey: string): Promise<string> {
+  const lookupKey = hashLicenseKey(licenseKey);
+  if (isLegacyLicenseKey(licenseKey)) {
+    const moved = await moveLicense(normalizeLicenseKey(licenseKey), lookupKey);
+    if (moved) log.info('Legacy license moved to hashed storage', { licenseKey: lookupKey });
+  }
+
+  const alias = await redisCommand('GET', aliasKey(lookupKey));
+  return alias ? String(alias) : lookupKey;
+}
+
+/**
+ * Lookup key for input that may be a license key (e.g. from an
+ * operator or old Stripe metadata) or already a lookup key. Either
+ * way a key rotated within its overlap window resolves to the new one.
+ */
+export async function toLookupKey(keyOrLookup: string): Promise<string> {
+  if (isValidLicenseKey(keyOrLookup)) return resolveLicenseKey(keyOrLookup);
+  const alias = await redisCommand('GET', aliasKey(keyOrLookup));
+  return alias ? String(alias) : keyOrLookup;
+}
+
+/**
+ * Move every legacy license to hashed storage and replace legacy
+ * keys in the cost report. Returns how many licenses were moved.
+ */
+export async function migrateLegacyLicenses(): Promise<{ licenses: number; costEntries: number }> {
+  let licenses = 0;
+  for (const key of await listLicenseKeys()) {
+    if (!isLegacyLicenseKey(key)) continue;
+    if (await moveLicense(key, hashLicenseKey(key))) licenses++;
+  }
+
+  const costEntries = await rekeyCostLicenses(key => (isLegacyLicenseKey(key) ? hashLicenseKey(key) : null));
+  log.info('Legacy license migration finished', { licenses, costEntries });
+  return { licenses, costEntries };
+}
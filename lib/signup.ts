@@ -0,0 +1,161 @@
+// ============================================================
+// Помощник — Free Plan Signup
+// ============================================================
+// Self-serve signup for the free plan (POST /api/signup): the
+// customer gets a 6-digit code by email and the license is created
+// once the code is confirmed.
+//
+// One free license per mailbox: addresses are compared after
+// normalizing (case, +tags, dots in Gmail addresses), and an address
+// that already signed up or has any license can't sign up again.
+// Disposable email domains are refused.
+//
+// Keys:
+//   signup:code:{address}      → SHA-256 of the pending code (with a TTL)
+//   signup:attempts:{address}  → wrong guesses for the pending code
+//   signup:email:{address}     → lookup key of the license it created
+//                                (re-pointed when the license moves, lib/rekey.ts)
+//
+// Env vars: SIGNUP_CODE_TTL_MINUTES (default 15),
+//           DISPOSABLE_EMAIL_DOMAINS (extra domains, comma-separated)
+// ============================================================
+
+import { createHash, randomInt } from 'crypto';
+import { CreatedLicense, LicenseRecord, createLicense, getLicense, getLicenseByEmail, redisCommand } from './db';
+
+export const SIGNUP_CODE_TTL_MINUTES = parseInt(process.env.SIGNUP_CODE_TTL_MINUTES || '15', 10);
+const MAX_CODE_ATTEMPTS = 5;
+
+// Common throwaway-mailbox providers; extend with DISPOSABLE_EMAIL_DOMAINS
+const DISPOSABLE_DOMAINS = new Set([
+  '10minutemail.com', '1secmail.com', '33mail.com', 'burnermail.io', 'discard.email',
+  'dispostable.com', 'emailfake.com', 'emailondeck.com', 'fakeinbox.com', 'getairmail.com',
+  'getnada.com', 'grr.la', 'guerrillamail.com', 'guerrillamail.net', 'guerrillamailblock.com',
+  'inboxkitten.com', 'mailcatch.com', 'maildrop.cc', 'mailinator.com', 'mailnesia.com',
+  'mintemail.com', 'moakt.com', 'mohmal.com', 'mytemp.email', 'nada.email',
+  'sharklasers.com', 'spam4.me', 'spamgourmet.com', 'temp-mail.org', 'tempinbox.com',
+  'tempmail.com', 'tempmailo.com', 'tempr.email', 'throwawaymail.com', 'tmail.ws',
+  'tmpmail.org', 'trashmail.com', 'yopmail.com', 'yopmail.fr',
+]);
+
+export type SignupCodeCheck = 'ok' | 'invalid' | 'too_many_attempts';
+
+/**
+ * Mailbox an address delivers to, for spotting repeat signups:
+ * lowercased, without a +tag, and without dots for Gmail.
+ */
+export function normalizeSignupEmail(email: string): string {
+  const [local, domain] = email.trim().toLowerCase().split('@');
+  const gmail = domain === 'gmail.com' || domain === 'googlemail.com';
+  const base = local.split('+')[0];
+  return gmail ? `${base.replace(/\./g, '')}@gmail.com` : `${base}@${domain}`;
+}
+
+/**
+ * Whether the address belongs to a disposable email provider
+ * (subdomains included).
+ */
+export function isDisposableEmail(email: string): boolean {
+  const domain = email.trim().toLowerCase().split('@')[1] || '';
+  const extra = (process.env.DISPOSABLE_EMAIL_DOMAINS || '')
+    .split(',').map(d => d.trim().toLowerCase()).filter(Boolean);
+
+  const parts = domain.split('.');
+  for (let i = 0; i < parts.length - 1; i++) {
+    const candidate = parts.slice(i).join('.');
+    if (DISPOSABLE_DOMAINS.has(candidate) || extra.includes(candidate)) return true;
+  }
+  return false;
+}
+
+/**
+ * License an address already has: the one it signed up for (under
+ * any spelling of the address) or one registered to it exactly
+ * (e.g. from Stripe checkout).
+ */
+export async function getSignupLicense(email: string): Promise<LicenseRecord | null> {
+  const signedUp = await redisCommand('GET', `signup:email:${normalizeSignupEmail(email)}`);
+  const license = signedUp && signedUp !== 'pending' ? await getLicense(String(signedUp)) : null;
+  return license || await getLicenseByEmail(email.trim()) || getLicenseByEmail(email.trim().toLowerCase());
+}
+
+/**
+ * Whether the address already signed up or has a license.
+ */
+export async function hasSignedUp(email: string): Promise<boolean> {
+  if (await redisCommand('EXISTS', `signup:email:${normalizeSignupEmail(email)}`)) return true;
+  return !!(await getSignupLicense(email));
+}
+
+/**
+ * Point an address's signup at its license's new lookup key (see
+ * lib/rekey.ts). Addresses that signed up for another license, or
+ * never signed up, are left alone.
+ */
+export async function replaceSignupKey(email: string, fromKey: string, toKey: string): Promise<void> {
+  const marker = `signup:email:${normalizeSignupEmail(email)}`;
+  if (String(await redisCommand('GET', marker)) === fromKey) {
+    await redisCommand('SET', marker, toKey);
+  }
+}
+
+function codeHash(address: string, code: string): string {
+  return createHash('sha256').update(`${address}:${code}`).digest('hex');
+}
+
+/**
+ * New verification code for the address. Replaces a pending one.
+ */
+export async function createSignupCode(email: string): Promise<{ code: string; expiresAt: string }> {
+  const address = normalizeSignupEmail(email);
+  const code = String(randomInt(0, 1_000_000)).padStart(6, '0');
+  const seconds = SIGNUP_CODE_TTL_MINUTES * 60;
+
+  await redisCommand('SET', `signup:code:${address}`, codeHash(address, code), 'EX', seconds);
+  await redisCommand('DEL', `signup:attempts:${address}`);
+  return { code, expiresAt: new Date(Date.now() + seconds * 1000).toISOString() };
+}
+
+/**
+ * Check a code against the pending one. After MAX_CODE_ATTEMPTS
+ * wrong guesses the code is dropped and a new one has to be sent.
+ */
+export async function checkSignupCode(email: string, code: string): Promise<SignupCodeCheck> {
+  const address = normalizeSignupEmail(email);
+  const stored = await redisCommand('GET', `signup:code:${address}`);
+  if (!stored) return 'invalid';
+
+  if (String(stored) === codeHash(address, code.trim())) {
+    await redisCommand('DEL', `signup:code:${address}`, `signup:attempts:${address}`);
+    return 'ok';
+  }
+
+  const attempts = await redisCommand('INCR', `signup:attempts:${address}`);
+  await redisCommand('EXPIRE', `signup:attempts:${address}`, SIGNUP_CODE_TTL_MINUTES * 60);
+  if (typeof attempts === 'number' && attempts >= MAX_CODE_ATTEMPTS) {
+    await redisCommand('DEL', `signup:code:${address}`, `signup:attempts:${address}`);
+    return 'too_many_attempts';
+  }
+  return 'invalid';
+}
+
+/**
+ * Create the free license for a verified address. Returns null if
+ * the address signed up (or got a license) in the meantime.
+ */
+export async function createFreeLicense(email: string): Promise<CreatedLicense | null> {
+  const address = normalizeSignupEmail(email);
+  if (await getLicenseByEmail(email)) return null;
+
+  // Claim the mailbox first so concurrent confirmations create one license
+  if (!(await redisCommand('SET', `signup:email:${address}`, 'pending', 'NX'))) return null;
+
+  try {
+    const created = await createLicense(email, 'free');
+    await redisCommand('SET', `signup:email:${address}`, created.record.key);
+    return created;
+  } catch (err) {
+    await redisCommand('DEL', `signup:email:${address}`);
+    throw err;
+  }
+}
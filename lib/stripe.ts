@@ -4,6 +4,63 @@
 
 import Stripe from 'stripe';
 
+export type BillingInterval = 'month' | 'year';
+export type BillingCurrency = 'eur' | 'bgn';
+
+export const BILLING_INTERVALS: BillingInterval[] = ['month', 'year'];
+export const BILLING_CURRENCIES: BillingCurrency[] = ['eur', 'bgn'];
+
+export const DEFAULT_CURRENCY: BillingCurrency =
+  process.env.STRIPE_DEFAULT_CURRENCY === 'bgn' ? 'bgn' : 'eur';
+
+const PAID_PLANS = ['starter', 'pro', 'business'];
+
+export interface PriceVariant {
+  plan: string;
+  interval: BillingInterval;
+  currency: BillingCurrency;
+}
+
+// STRIPE_PRICE_PRO_ANNUAL_BGN etc. The old STRIPE_PRICE_PRO is the
+// monthly price in the default currency.
+function priceFromEnv(plan: string, interval: BillingInterval, currency: BillingCurrency): string | undefined {
+  const prefix = `STRIPE_PRICE_${plan.toUpperCase()}`;
+  const variant = `${prefix}_${interval === 'year' ? 'ANNUAL' : 'MONTHLY'}_${currency.toUpperCase()}`;
+  if (process.env[variant]) return process.env[variant];
+  return interval === 'month' && currency === DEFAULT_CURRENCY ? process.env[prefix] : undefined;
+}
+
+// Stripe price ID per paid plan, interval and currency (Stripe Dashboard → Products → Prices)
+export const PRICE_CATALOG: Record<string, Record<BillingInterval, Record<BillingCurrency, string | undefined>>> =
+  Object.fromEntries(PAID_PLANS.map(plan => [plan, {
+    month: { eur: priceFromEnv(plan, 'month', 'eur'), bgn: priceFromEnv(plan, 'month', 'bgn') },
+    year: { eur: priceFromEnv(plan, 'year', 'eur'), bgn: priceFromEnv(plan, 'year', 'bgn') },
+  }]));
+
+// Monthly price in the default currency per paid plan
+export const PRICE_MAP: Record<string, string | undefined> = Object.fromEntries(
+  PAID_PLANS.map(plan => [plan, PRICE_CATALOG[plan].month[DEFAULT_CURRENCY]]),
+);
+
+// One-time price per credit pack (CREDIT_PACKS in config.ts)
+export const CREDIT_PACK_PRICES: Record<string, string | undefined> = {
+  small: process.env.STRIPE_PRICE_CREDITS_SMALL,
+  medium: process.env.STRIPE_PRICE_CREDITS_MEDIUM,
+  large: process.env.STRIPE_PRICE_CREDITS_LARGE,
+};
+
+// Stripe Tax + VAT ID collection in Checkout. Opt-in: Checkout
+// fails for every customer while Stripe Tax isn't set up
+export const AUTOMATIC_TAX = process.env.STRIPE_AUTOMATIC_TAX === 'true';
+
+export function getPriceId(
+  plan: string,
+  interval: BillingInterval = 'month',
+  currency: BillingCurrency = DEFAULT_CURRENCY,
+): string | undefined {
+  return PRICE_CATALOG[plan]?.[interval]?.[currency];
+}
+
 let stripeInstance: Stripe | null = null;
 
 export function getStripe(): Stripe {
@@ -18,3 +75,51 @@ export function getStripe(): Stripe {
   }
   return stripeInstance;
 }
+
+// Reverse lookup: which plan, interval and currency a Stripe price belongs to
+export function getPriceVariant(priceId: string): PriceVariant | null {
+  for (const [plan, intervals] of Object.entries(PRICE_CATALOG)) {
+    for (const interval of BILLING_INTERVALS) {
+      for (const currency of BILLING_CURRENCIES) {
+        if (intervals[interval][currency] === priceId) return { plan, interval, currency };
+      }
+    }
+  }
+  return null;
+}
+
+export function getPlanForPriceId(priceId: string): string | null {
+  return getPriceVariant(priceId)?.plan || null;
+}
+
+/**
+ * Plan of a subscription, from its first item's price.
+ * Falls back to the plan stored in metadata at checkout.
+ */
+export function getSubscriptionPlan(subscription: Stripe.Subscription): string | null {
+  const priceId = subscription.items?.data?.[0]?.price?.id;
+  return (priceId && getPlanForPriceId(priceId)) || subscription.metadata?.plan || null;
+}
+
+/**
+ * Map a Stripe subscription status to a license status.
+ * Returns null for transitional states that shouldn't change the license.
+ */
+export function getLicenseStatus(status: Stripe.Subscription.Status): string | null {
+  switch (status) {
+    case 'active':
+    case 'trialing':
+      return 'active';
+    case 'past_due':
+    case 'unpaid':
+      return 'past_due';
+    case 'canceled':
+      return 'cancelled';
+    case 'paused':
+    case 'incomplete_expired':
+      return 'expired';
+    default:
+      // incomplete
+      return null;
+  }
+}
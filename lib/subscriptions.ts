@@ -0,0 +1,121 @@
+// ============================================================
+// Помощник — Stripe Subscription → License Sync
+// ============================================================
+// One place that knows how a Stripe subscription maps onto a
+// LicenseRecord. Used by the webhook (event by event) and by the
+// reconciliation job (whole catalogue).
+// ============================================================
+
+import type Stripe from 'stripe';
+import {
+  LicenseRecord,
+  getLicense,
+  getLicenseByEmail,
+  getLicenseByStripeCustomer,
+  getLicenseByStripeSubscription,
+  updateLicense,
+} from './db';
+import { downgradeToFree, markPastDue, reinstateLicense } from './dunning';
+import { updateOrganization } from './orgs';
+import { getLicenseStatus, getSubscriptionPlan } from './stripe';
+
+export interface LicenseState {
+  plan: string;
+  status: string;
+}
+
+// Stripe fields are either an id or an expanded object
+export function idOf(value: string | { id: string } | null | undefined): string | null {
+  if (!value) return null;
+  return typeof value === 'string' ? value : value.id;
+}
+
+export async function findLicenseForStripe(
+  subscriptionId: string | null,
+  customerId: string | null,
+  email?: string | null,
+): Promise<LicenseRecord | null> {
+  const bySubscription = subscriptionId ? await getLicenseByStripeSubscription(subscriptionId) : null;
+  if (bySubscription) return bySubscription;
+
+  const byCustomer = customerId ? await getLicenseByStripeCustomer(customerId) : null;
+  if (byCustomer) return byCustomer;
+
+  // Licenses created before the Stripe ID indexes existed
+  return email ? getLicenseByEmail(email) : null;
+}
+
+// Stripe ended the subscription because it was never paid
+function endedForNonPayment(subscription: Stripe.Subscription): boolean {
+  return subscription.status === 'canceled' && subscription.cancellation_details?.reason === 'payment_failed';
+}
+
+/**
+ * Plan and status the license should have for this subscription.
+ */
+export function expectedLicenseState(license: LicenseRecord, subscription: Stripe.Subscription): LicenseState {
+  if (endedForNonPayment(subscription)) return { plan: 'free', status: 'active' };
+
+  const status = getLicenseStatus(subscription.status) || license.status;
+  if (status === 'cancelled') return { plan: license.plan, status };
+
+  // A license downgraded for non-payment stays on free until it is paid
+  if (status !== 'active' && license.downgradedFromPlan) return { plan: 'free', status: 'active' };
+
+  return { plan: getSubscriptionPlan(subscription) || license.plan, status };
+}
+
+/**
+ * Bring a license in line with its Stripe subscription.
+ * Returns the updated license.
+ */
+export async function applySubscription(
+  license: LicenseRecord,
+  subscription: Stripe.Subscription,
+): Promise<LicenseRecord | null> {
+  if (endedForNonPayment(subscription)) {
+    // Same outcome as an expired grace period
+    return license.downgradedFromPlan && license.plan === 'free' ? license : downgradeToFree(license);
+  }
+
+  if (subscription.status === 'canceled') {
+    const endedAt = subscription.ended_at || Math.floor(Date.now() / 1000);
+    return updateLicense(license.key, {
+      status: 'cancelled',
+      currentPeriodEnd: new Date(endedAt * 1000).toISOString(),
+      cancelAtPeriodEnd: false,
+    });
+  }
+
+  const status = getLicenseStatus(subscription.status);
+  const plan = getSubscriptionPlan(subscription);
+  const keepDowngrade = !!license.downgradedFromPlan && status !== 'active';
+
+  const updated = await updateLicense(license.key, {
+    ...(plan && !keepDowngrade && { plan }),
+    // A scheduled downgrade has now taken effect
+    ...(plan && plan === license.scheduledPlan && { scheduledPlan: null, scheduledPlanAt: null }),
+    // past_due is entered through markPastDue so the grace period is recorded
+    ...(status && status !== 'past_due' && { status }),
+    stripeCustomerId: idOf(subscription.customer) || undefined,
+    stripeSubscriptionId: subscription.id,
+    currentPeriodEnd: new Date(subscription.current_period_end * 1000).toISOString(),
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+  });
+  if (!updated) return null;
+
+  // Seats bought or removed (e.g. in the Customer Portal)
+  const seats = subscription.items?.data?.[0]?.quantity;
+  if (updated.orgId && updated.orgRole === 'admin' && seats) {
+    await updateOrganization(updated.orgId, { seats });
+  }
+
+  if (status === 'past_due') {
+    return markPastDue(updated);
+  }
+  if (status === 'active' && (license.status === 'past_due' || license.downgradedFromPlan)) {
+    await reinstateLicense(license, plan);
+    return getLicense(license.key);
+  }
+  return updated;
+}
@@ -0,0 +1,177 @@
+// ============================================================
+// Помощник — Signed License Tokens (Ed25519 JWT)
+// ============================================================
+// /api/verify can hand out a short-lived token with the license's
+// plan, models and limits. The extension works from the token
+// between verifies (and can validate it offline against the key from
+// /.well-known/jwks.json); /api/ai accepts it in place of the license
+// key and works from its claims without reading the license; only a
+// revocation marker (lib/db.ts) is checked.
+//
+// Env vars: LICENSE_TOKEN_PRIVATE_KEY (Ed25519, PKCS#8 PEM),
+//           LICENSE_TOKEN_TTL_SECONDS (default 900)
+// ============================================================
+
+import { KeyObject, createHash, createPrivateKey, createPublicKey, sign, verify } from 'crypto';
+import { LICENSE_TOKEN_TTL_SECONDS, LicenseRecord, getTaskCount, getTokenRevocation } from './db';
+import { ModelTier, PLANS } from './config';
+import { getRateLimit } from './ratelimit';
+import type { UsageAccount } from './orgs';
+
+const ISSUER = 'pomoshnik';
+
+export interface LicenseTokenClaims {
+  iss: string;
+  sub: string;             // License lookup key
+  iat: number;             // Unix seconds
+  exp: number;             // Unix seconds
+  plan: string;
+  status: string;          // 'active' | 'past_due'
+  models: string[];
+  vision: boolean;
+  limits: {
+    tasksPerMonth: number;       // -1 = unlimited
+    requestsPerMinute: number;
+    maxDevices: number;          // -1 = unlimited
+    tokenBudgets: Record<ModelTier, number>;
+  };
+  acct?: string;           // Usage account when it isn't the license (shared org pool)
+  did?: string;            // Device the token was issued for
+  org?: { id: string; role?: 'admin' | 'member' };
+}
+
+let signingKeys: { privateKey: KeyObject; publicKey: KeyObject; kid: string } | null = null;
+
+function base64url(data: Buffer | string): string {
+  return Buffer.from(data).toString('base64url');
+}
+
+// Parsed once per instance; null when tokens aren't configured
+function getSigningKeys(): typeof signingKeys {
+  if (signingKeys) return signingKeys;
+  const pem = process.env.LICENSE_TOKEN_PRIVATE_KEY;
+  if (!pem) return null;
+
+  const privateKey = createPrivateKey(pem.replace(/\\n/g, '\n'));
+  if (privateKey.asymmetricKeyType !== 'ed25519') {
+    throw new Error('LICENSE_TOKEN_PRIVATE_KEY must be an Ed25519 key');
+  }
+  const publicKey = createPublicKey(privateKey);
+  const kid = base64url(createHash('sha256').update(publicKey.export({ type: 'spki', format: 'der' })).digest()).slice(0, 16);
+
+  signingKeys = { privateKey, publicKey, kid };
+  return signingKeys;
+}
+
+/**
+ * Token for a verified, active license. Returns null when
+ * LICENSE_TOKEN_PRIVATE_KEY isn't set.
+ */
+export function issueLicenseToken(
+  license: LicenseRecord,
+  account: UsageAccount,
+  deviceId: string | null,
+): { token: string; expiresAt: string } | null {
+  const keys = getSigningKeys();
+  if (!keys) return null;
+
+  const planConfig = PLANS[license.plan] || PLANS.free;
+  const now = Math.floor(Date.now() / 1000);
+  const claims: LicenseTokenClaims = {
+    iss: ISSUER,
+    sub: license.key,
+    iat: now,
+    exp: now + LICENSE_TOKEN_TTL_SECONDS,
+    plan: license.plan,
+    status: license.status,
+    models: planConfig.models,
+    vision: planConfig.vision,
+    limits: {
+      tasksPerMonth: account.taskLimit,
+      requestsPerMinute: getRateLimit(license.plan),
+      maxDevices: planConfig.maxDevices,
+      tokenBudgets: account.tokenBudgets,
+    },
+    ...(account.key !== license.key && { acct: account.key }),
+    ...(deviceId && { did: deviceId }),
+    ...(license.orgId && { org: { id: license.orgId, role: license.orgRole } }),
+  };
+
+  const header = base64url(JSON.stringify({ alg: 'EdDSA', typ: 'JWT', kid: keys.kid }));
+  const payload = base64url(JSON.stringify(claims));
+  const signature = base64url(sign(null, Buffer.from(`${header}.${payload}`), keys.privateKey));
+
+  return { token: `${header}.${payload}.${signature}`, expiresAt: new Date(claims.exp * 1000).toISOString() };
+}
+
+// License keys never contain dots; JWTs always have three parts
+export function isLicenseToken(value: string): boolean {
+  return value.split('.').length === 3;
+}
+
+/**
+ * Claims of a token we signed that hasn't expired, or null.
+ */
+export function verifyLicenseToken(token: string): LicenseTokenClaims | null {
+  const keys = getSigningKeys();
+  if (!keys) return null;
+
+  const [header, payload, signature] = token.split('.');
+  try {
+    const { alg, kid } = JSON.parse(Buffer.from(header, 'base64url').toString());
+    if (alg !== 'EdDSA' || kid !== keys.kid) return null;
+    if (!verify(null, Buffer.from(`${header}.${payload}`), keys.publicKey, Buffer.from(signature, 'base64url'))) {
+      return null;
+    }
+
+    const claims: LicenseTokenClaims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    if (claims.iss !== ISSUER || !(claims.exp > Date.now() / 1000)) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The license and usage account as far as a token describes them,
+ * or null if the license was revoked, re-keyed or changed plan or
+ * status after the token was issued. Only the revocation marker and
+ * the task counter are read; if Redis can't answer, the claims are
+ * trusted until the token expires.
+ */
+export async function licenseFromToken(
+  claims: LicenseTokenClaims,
+): Promise<{ license: LicenseRecord; account: UsageAccount } | null> {
+  const revokedAt = await getTokenRevocation(claims.sub, claims.org?.id).catch(() => 0);
+  if (revokedAt >= claims.iat) return null;
+
+  const license: LicenseRecord = {
+    key: claims.sub,
+    email: '',
+    plan: claims.plan,
+    status: claims.status,
+    orgId: claims.org?.id,
+    orgRole: claims.org?.role,
+    tasksUsedThisMonth: await getTaskCount(claims.sub).catch(() => 0),
+    monthResetDate: '',
+    createdAt: '',
+    updatedAt: new Date(claims.iat * 1000).toISOString(),
+  };
+  const account: UsageAccount = {
+    key: claims.acct || claims.sub,
+    taskLimit: claims.limits.tasksPerMonth,
+    tokenBudgets: claims.limits.tokenBudgets,
+  };
+  return { license, account };
+}
+
+/**
+ * Public signing key as a JWK set, for validating tokens offline.
+ */
+export function getTokenJwks(): { keys: object[] } | null {
+  const keys = getSigningKeys();
+  if (!keys) return null;
+  return {
+    keys: [{ ...keys.publicKey.export({ format: 'jwk' }), kid: keys.kid, alg: 'EdDSA', use: 'sig' }],
+  };
+}
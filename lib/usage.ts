@@ -0,0 +1,284 @@
+// ============================================================
+// Помощник — Token Usage Metering (Upstash Redis)
+// ============================================================
+// Records prompt/completion tokens per license per calendar
+// month (UTC), split by model tier, so plans can enforce token
+// budgets on top of the monthly task limit. Also aggregates the
+// provider cost of every request per day for admin reports.
+// ============================================================
+
+import { getUsageMonth, redisCommand } from './db';
+import { MODEL_TIERS, ModelTier, PLANS, PlanConfig, calculateCostUsd, getModelTier } from './config';
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface TierUsage {
+  used: number;        // prompt + completion tokens this month
+  budget: number;      // -1 = unlimited
+  remaining: number;   // -1 = unlimited
+}
+
+// Keep a few months of history for support questions
+const USAGE_TTL_SECONDS = 100 * 24 * 60 * 60;
+const COST_TTL_SECONDS = 400 * 24 * 60 * 60;
+
+function usageKey(licenseKey: string, month: string): string {
+  return `usage:${licenseKey}:${month}`;
+}
+
+// Upstash returns HGETALL as a flat [field, value, field, value, ...] array
+function hashEntries(raw: unknown): [string, string][] {
+  const entries: [string, string][] = [];
+  if (Array.isArray(raw)) {
+    for (let i = 0; i + 1 < raw.length; i += 2) entries.push([String(raw[i]), String(raw[i + 1])]);
+  } else if (raw && typeof raw === 'object') {
+    for (const [field, value] of Object.entries(raw as Record<string, unknown>)) {
+      entries.push([field, String(value)]);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Add a request's token usage to the license's monthly counters.
+ *
+ * Key format: usage:{licenseKey}:{YYYY-MM} (hash)
+ * Fields: {tier}:prompt, {tier}:completion, model:{model}
+ */
+export async function recordTokenUsage(
+  licenseKey: string,
+  model: string,
+  usage: TokenUsage,
+): Promise<void> {
+  const tier = getModelTier(model);
+  const key = usageKey(licenseKey, getUsageMonth());
+  const total = usage.promptTokens + usage.completionTokens;
+  if (total <= 0) return;
+
+  await redisCommand('HINCRBY', key, `${tier}:prompt`, usage.promptTokens);
+  await redisCommand('HINCRBY', key, `${tier}:completion`, usage.completionTokens);
+  await redisCommand('HINCRBY', key, `model:${model}`, total);
+  await redisCommand('EXPIRE', key, USAGE_TTL_SECONDS);
+}
+
+/**
+ * Read this month's token totals per tier (prompt + completion).
+ */
+export async function getMonthlyTokenUsage(licenseKey: string): Promise<Record<ModelTier, number>> {
+  const raw = await redisCommand('HGETALL', usageKey(licenseKey, getUsageMonth()));
+  const totals = Object.fromEntries(MODEL_TIERS.map(t => [t, 0])) as Record<ModelTier, number>;
+
+  for (const [field, value] of hashEntries(raw)) {
+    const [tier, kind] = field.split(':');
+    if ((kind === 'prompt' || kind === 'completion') && tier in totals) {
+      totals[tier as ModelTier] += parseInt(value, 10) || 0;
+    }
+  }
+  return totals;
+}
+
+/**
+ * Combine monthly usage with the plan's budgets for reporting.
+ */
+export function summarizeTokenBudgets(
+  planConfig: PlanConfig,
+  used: Record<ModelTier, number>,
+): Record<ModelTier, TierUsage> {
+  const summary = {} as Record<ModelTier, TierUsage>;
+  for (const tier of MODEL_TIERS) {
+    const budget = planConfig.tokenBudgets[tier];
+    summary[tier] = {
+      used: used[tier],
+      budget,
+      remaining: budget === -1 ? -1 : Math.max(0, budget - used[tier]),
+    };
+  }
+  return summary;
+}
+
+// ============================================================
+// Cost Accounting
+// ============================================================
+// Daily cost hashes, amounts in micro-dollars so HINCRBY stays
+// exact. Key: cost:{YYYY-MM-DD}
+// Fields: total, requests, provider:{provider}, plan:{plan},
+//         license:{plan}:{licenseKey}
+
+export interface LicenseCost {
+  licenseKey: string;
+  plan: string;
+  costUsd: number;
+  revenueUsd: number;   // plan revenue pro-rated over the report range
+  marginUsd: number;
+}
+
+export interface CostReport {
+  from: string;
+  to: string;
+  days: number;
+  totalUsd: number;
+  requests: number;
+  byDay: Array<{ date: string; costUsd: number; requests: number }>;
+  byProvider: Record<string, number>;
+  byPlan: Record<string, { costUsd: number; licenses: number }>;
+  byLicense: LicenseCost[];
+  unprofitableLicenses: number;
+}
+
+const MICROS_PER_USD = 1_000_000;
+
+function costKey(date: string): string {
+  return `cost:${date}`;
+}
+
+// Day bucket, e.g. "2026-02-14"
+export function getCostDay(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function roundUsd(value: number): number {
+  return Math.round(value * 10_000) / 10_000;
+}
+
+/**
+ * Add a request's provider cost to today's aggregates.
+ * Returns the cost in USD.
+ */
+export async function recordRequestCost(
+  licenseKey: string,
+  plan: string,
+  provider: string,
+  model: string,
+  usage: TokenUsage,
+): Promise<number> {
+  const costUsd = calculateCostUsd(model, usage.promptTokens, usage.completionTokens);
+  const micros = Math.round(costUsd * MICROS_PER_USD);
+  const key = costKey(getCostDay());
+
+  await redisCommand('HINCRBY', key, 'requests', 1);
+  if (micros > 0) {
+    await redisCommand('HINCRBY', key, 'total', micros);
+    await redisCommand('HINCRBY', key, `provider:${provider}`, micros);
+    await redisCommand('HINCRBY', key, `plan:${plan}`, micros);
+    await redisCommand('HINCRBY', key, `license:${plan}:${licenseKey}`, micros);
+  }
+  await redisCommand('EXPIRE', key, COST_TTL_SECONDS);
+
+  return costUsd;
+}
+
+/**
+ * Rename license entries in the daily cost hashes that are still
+ * kept. `rekey` returns the new license key, or null to keep one.
+ * Returns the number of entries renamed.
+ */
+export async function rekeyCostLicenses(rekey: (licenseKey: string) => string | null): Promise<number> {
+  const days = COST_TTL_SECONDS / (24 * 60 * 60);
+  let renamed = 0;
+
+  for (let d = new Date(), i = 0; i < days; d.setUTCDate(d.getUTCDate() - 1), i++) {
+    const key = costKey(getCostDay(d));
+    for (const [field, value] of hashEntries(await redisCommand('HGETALL', key))) {
+      const [kind, plan, ...rest] = field.split(':');
+      const newKey = kind === 'license' ? rekey(rest.join(':')) : null;
+      if (!newKey) continue;
+
+      await redisCommand('HINCRBY', key, `license:${plan}:${newKey}`, parseInt(value, 10) || 0);
+      await redisCommand('HDEL', key, field);
+      renamed++;
+    }
+  }
+  return renamed;
+}
+
+/**
+ * Aggregate daily cost hashes between two dates (inclusive, YYYY-MM-DD).
+ */
+export async function getCostReport(from: string, to: string, limit = 50): Promise<CostReport> {
+  const days: string[] = [];
+  for (let d = new Date(`${from}T00:00:00Z`); getCostDay(d) <= to; d.setUTCDate(d.getUTCDate() + 1)) {
+    days.push(getCostDay(d));
+  }
+
+  const byDay: CostReport['byDay'] = [];
+  const byProvider: Record<string, number> = {};
+  const byPlan: CostReport['byPlan'] = {};
+  const licenses = new Map<string, { plan: string; micros: number }>();
+  let totalMicros = 0;
+  let requests = 0;
+
+  for (const date of days) {
+    const entries = hashEntries(await redisCommand('HGETALL', costKey(date)));
+    let dayMicros = 0;
+    let dayRequests = 0;
+
+    for (const [field, value] of entries) {
+      const amount = parseInt(value, 10) || 0;
+      const [kind, name, ...rest] = field.split(':');
+
+      if (kind === 'total') {
+        dayMicros = amount;
+      } else if (kind === 'requests') {
+        dayRequests = amount;
+      } else if (kind === 'provider') {
+        byProvider[name] = (byProvider[name] || 0) + amount;
+      } else if (kind === 'plan') {
+        byPlan[name] = byPlan[name] || { costUsd: 0, licenses: 0 };
+        byPlan[name].costUsd += amount;
+      } else if (kind === 'license') {
+        // Keys contain no ':' today, but don't rely on it
+        const licenseKey = rest.join(':');
+        const id = `${name}:${licenseKey}`;
+        const entry = licenses.get(id) || { plan: name, micros: 0 };
+        entry.micros += amount;
+        licenses.set(id, entry);
+      }
+    }
+
+    totalMicros += dayMicros;
+    requests += dayRequests;
+    byDay.push({ date, costUsd: roundUsd(dayMicros / MICROS_PER_USD), requests: dayRequests });
+  }
+
+  // Convert accumulated micros to USD
+  for (const name of Object.keys(byProvider)) {
+    byProvider[name] = roundUsd(byProvider[name] / MICROS_PER_USD);
+  }
+  for (const name of Object.keys(byPlan)) {
+    byPlan[name].costUsd = roundUsd(byPlan[name].costUsd / MICROS_PER_USD);
+  }
+
+  const monthFraction = days.length / 30;
+  const byLicense: LicenseCost[] = [];
+  for (const [id, entry] of licenses) {
+    const licenseKey = id.slice(entry.plan.length + 1);
+    const costUsd = entry.micros / MICROS_PER_USD;
+    const revenueUsd = (PLANS[entry.plan]?.monthlyRevenueUsd ?? 0) * monthFraction;
+    byPlan[entry.plan] = byPlan[entry.plan] || { costUsd: 0, licenses: 0 };
+    byPlan[entry.plan].licenses += 1;
+    byLicense.push({
+      licenseKey,
+      plan: entry.plan,
+      costUsd: roundUsd(costUsd),
+      revenueUsd: roundUsd(revenueUsd),
+      marginUsd: roundUsd(revenueUsd - costUsd),
+    });
+  }
+  byLicense.sort((a, b) => b.costUsd - a.costUsd);
+
+  return {
+    from,
+    to,
+    days: days.length,
+    totalUsd: roundUsd(totalMicros / MICROS_PER_USD),
+    requests,
+    byDay,
+    byProvider,
+    byPlan,
+    byLicense: byLicense.slice(0, limit),
+    unprofitableLicenses: byLicense.filter(l => l.marginUsd < 0).length,
+  };
+}
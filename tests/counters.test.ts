@@ -0,0 +1,196 @@
+// ============================================================
+// Помощник Backend — Usage Counter Concurrency Tests
+// ============================================================
+// Run with: npx tsx tests/counters.test.ts
+//
+// Starts a local stand-in for the Upstash REST API (in-memory,
+// with random per-command latency so concurrent commands
+// interleave) and fires parallel requests at lib/db.ts.
+// No network or real Redis needed.
+// ============================================================
+
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  duration: number;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+
+async function runTest(name: string, fn: () => Promise<void>) {
+  const start = Date.now();
+  try {
+    await fn();
+    results.push({ name, passed: true, duration: Date.now() - start });
+    console.log(`  ✅ ${name} (${Date.now() - start}ms)`);
+  } catch (err: any) {
+    results.push({ name, passed: false, duration: Date.now() - start, error: err.message });
+    console.log(`  ❌ ${name} (${Date.now() - start}ms): ${err.message}`);
+  }
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(`Assertion failed: ${message}`);
+}
+
+// ============================================================
+// Redis stand-in (Upstash REST: POST / with ["CMD", ...args])
+// ============================================================
+
+const store = new Map<string, string>();
+const commandLog: string[][] = [];
+
+function execute(args: string[]): unknown {
+  const [command, key, ...rest] = args;
+  switch (command.toUpperCase()) {
+    case 'GET':
+      return store.get(key) ?? null;
+    case 'SET': {
+      if (rest.includes('NX') && store.has(key)) return null;
+      store.set(key, rest[0]);
+      return 'OK';
+    }
+    case 'INCR':
+    case 'DECR': {
+      const value = parseInt(store.get(key) ?? '0', 10) + (command.toUpperCase() === 'INCR' ? 1 : -1);
+      store.set(key, String(value));
+      return value;
+    }
+    case 'EXPIRE':
+      return 1;
+    default:
+      throw new Error(`Unsupported command ${command}`);
+  }
+}
+
+function startRedisStandIn(): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const args: string[] = JSON.parse(Buffer.concat(chunks).toString()).map(String);
+      // Random latency makes concurrent read-modify-write sequences interleave
+      setTimeout(() => {
+        commandLog.push(args);
+        try {
+          const result = execute(args);
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ result }));
+        } catch (err: any) {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: err.message }));
+        }
+      }, Math.random() * 5);
+    });
+  });
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+// ============================================================
+// Tests
+// ============================================================
+
+async function main() {
+  const server = await startRedisStandIn();
+  const { port } = server.address() as AddressInfo;
+  process.env.KV_REST_API_URL = `http://127.0.0.1:${port}`;
+  process.env.KV_REST_API_TOKEN = 'test-token';
+
+  const db = await import('../lib/db');
+
+  console.log(`\n🧪 Помощник Usage Counter Tests`);
+  console.log(`   Redis stand-in: ${process.env.KV_REST_API_URL}\n`);
+
+  const licenseKey = 'POM-TEST1-TEST2-TEST3-TEST4';
+  await db.setLicense(licenseKey, {
+    key: licenseKey,
+    email: 'concurrency@test.local',
+    plan: 'pro',
+    status: 'active',
+    tasksUsedThisMonth: 0,
+    monthResetDate: new Date(Date.now() + 86_400_000).toISOString(),
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  });
+
+  console.log('🔢 Task Counters:');
+
+  await runTest('50 parallel increments are all counted', async () => {
+    await Promise.all(Array.from({ length: 50 }, () => db.incrementTaskCount(licenseKey)));
+    const record = await db.getLicense(licenseKey);
+    assert(record?.tasksUsedThisMonth === 50, `Expected 50, got ${record?.tasksUsedThisMonth}`);
+  });
+
+  await runTest('Parallel increments return distinct counts', async () => {
+    const before = await db.getTaskCount(licenseKey);
+    const reserved = await Promise.all(Array.from({ length: 20 }, () => db.incrementTaskCount(licenseKey)));
+    const counts = new Set(reserved.map(r => r.count));
+    assert(counts.size === 20, `Expected 20 distinct counts, got ${counts.size}`);
+    assert(Math.max(...counts) === before + 20, `Expected max ${before + 20}, got ${Math.max(...counts)}`);
+  });
+
+  await runTest('Parallel increments and releases net out', async () => {
+    const before = await db.getTaskCount(licenseKey);
+    await Promise.all(Array.from({ length: 30 }, async () => {
+      const { month } = await db.incrementTaskCount(licenseKey);
+      await db.decrementTaskCount(licenseKey, month);
+    }));
+    const after = await db.getTaskCount(licenseKey);
+    assert(after === before, `Expected ${before}, got ${after}`);
+  });
+
+  await runTest('Counting usage never rewrites the license record', async () => {
+    commandLog.length = 0;
+    await Promise.all(Array.from({ length: 10 }, () => db.incrementTaskCount(licenseKey)));
+    const recordWrites = commandLog.filter(([cmd, key]) => cmd === 'SET' && key === `license:${licenseKey}`);
+    assert(recordWrites.length === 0, `Expected no license writes, got ${recordWrites.length}`);
+  });
+
+  await runTest('Legacy in-record count seeds the counter once', async () => {
+    const legacyKey = 'POM-LEGCY-LEGCY-LEGCY-LEGCY';
+    store.set(`license:${legacyKey}`, JSON.stringify({
+      key: legacyKey,
+      email: 'legacy@test.local',
+      plan: 'starter',
+      status: 'active',
+      tasksUsedThisMonth: 7,
+      monthResetDate: new Date(Date.now() + 86_400_000).toISOString(),
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    }));
+
+    const [a, b] = await Promise.all([db.getLicense(legacyKey), db.getLicense(legacyKey)]);
+    assert(a?.tasksUsedThisMonth === 7 && b?.tasksUsedThisMonth === 7, 'Expected both reads to see 7');
+    await db.incrementTaskCount(legacyKey);
+    const record = await db.getLicense(legacyKey);
+    assert(record?.tasksUsedThisMonth === 8, `Expected 8, got ${record?.tasksUsedThisMonth}`);
+  });
+
+  server.close();
+
+  // --- Summary ---
+  console.log('\n' + '='.repeat(50));
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed, ${results.length} total`);
+
+  if (failed > 0) {
+    console.log('\n❌ Failed tests:');
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`   - ${r.name}: ${r.error}`);
+    });
+  }
+
+  console.log('');
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,132 @@
+// ============================================================
+// Помощник Backend — Fallback Request Tests
+// ============================================================
+// Run with: npx tsx tests/fallback.test.ts
+//
+// Builds the provider request for each fallback model of an
+// image request, for every primary → fallback provider pair, and
+// checks each provider gets images in its own format. Images are
+// data URLs, so no network or Redis is needed.
+// ============================================================
+
+import { buildCandidateRequest, resolveImages } from '../api/ai';
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  duration: number;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+
+async function runTest(name: string, fn: () => Promise<void>) {
+  const start = Date.now();
+  try {
+    await fn();
+    results.push({ name, passed: true, duration: Date.now() - start });
+    console.log(`  ✅ ${name} (${Date.now() - start}ms)`);
+  } catch (err: any) {
+    results.push({ name, passed: false, duration: Date.now() - start, error: err.message });
+    console.log(`  ❌ ${name} (${Date.now() - start}ms): ${err.message}`);
+  }
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(`Assertion failed: ${message}`);
+}
+
+// 1×1 transparent PNG
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const CLIENT_MESSAGES = [
+  { role: 'system', content: 'Describe screenshots.' },
+  {
+    role: 'user',
+    content: [
+      { type: 'text', text: 'What is on this page?' },
+      { type: 'image_url', image_url: { url: `data:image/png;base64,${PNG_BASE64}` } },
+    ],
+  },
+];
+
+const MODELS: Record<string, string> = {
+  openai: 'gpt-4o',
+  anthropic: 'claude-sonnet-4-20250514',
+  gemini: 'gemini-2.5-pro',
+  deepseek: 'deepseek-chat',
+};
+
+// The image as each provider expects it in its request payload
+function findImage(provider: string, payload: any): boolean {
+  const json = JSON.stringify(payload);
+  switch (provider) {
+    case 'openai':
+      return payload.messages[1].content.some((p: any) => p.type === 'image_url' && p.image_url.url.endsWith(PNG_BASE64));
+    case 'anthropic':
+      return payload.messages[0].content.some((b: any) => b.type === 'image' && b.source?.data === PNG_BASE64);
+    case 'gemini':
+      return payload.contents[0].parts.some((p: any) => p.inlineData?.data === PNG_BASE64);
+    default:
+      return json.includes(PNG_BASE64);
+  }
+}
+
+async function main() {
+  console.log('\n🧪 Pomoshnik Fallback Request Tests\n');
+  console.log('🖼️  Image inputs across providers:');
+
+  for (const primary of ['openai', 'anthropic', 'gemini']) {
+    // The body the handler prepares for the primary model
+    const resolved = await resolveImages(CLIENT_MESSAGES, primary);
+    if ('error' in resolved) throw new Error(resolved.error);
+    const ctx = {
+      body: { model: MODELS[primary], messages: resolved.messages, stream: true },
+      clientMessages: CLIENT_MESSAGES,
+      imageCount: 1,
+    };
+
+    for (const fallback of ['openai', 'anthropic', 'gemini', 'deepseek']) {
+      if (fallback === primary) continue;
+
+      await runTest(`${primary} → ${fallback}`, async () => {
+        const request = await buildCandidateRequest(ctx, MODELS[primary], MODELS[fallback], fallback, 'test-key');
+        if (fallback === 'deepseek') {
+          assert(request === null, 'DeepSeek takes no images, so it must be skipped');
+          return;
+        }
+
+        assert(request !== null, 'Expected a request');
+        const payload = JSON.parse(request!.body);
+        assert(!request!.body.includes('inline_image'), 'Internal inline_image parts leaked into the request');
+        assert(findImage(fallback, payload), `Image not in ${fallback} format`);
+      });
+    }
+
+    await runTest(`${primary} primary keeps its prepared body`, async () => {
+      const request = await buildCandidateRequest(ctx, MODELS[primary], MODELS[primary], primary, 'test-key');
+      assert(request !== null && findImage(primary, JSON.parse(request.body)), `Image not in ${primary} format`);
+    });
+  }
+
+  // --- Summary ---
+  console.log('\n' + '='.repeat(50));
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed, ${results.length} total`);
+
+  if (failed > 0) {
+    console.log('\n❌ Failed tests:');
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`   - ${r.name}: ${r.error}`);
+    });
+  }
+
+  console.log('');
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});
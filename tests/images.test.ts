@@ -0,0 +1,185 @@
+// ============================================================
+// Помощник Backend — Remote Image Download Tests
+// ============================================================
+// Run with: npx tsx tests/images.test.ts
+//
+// Resolves http(s) image_url parts for Anthropic (api/ai.ts) with
+// fetch replaced by a stand-in, and checks that private and
+// metadata addresses are refused, redirects are re-checked and
+// oversized bodies are cut off while streaming. Hosts are IP
+// literals, so no DNS, network or Redis is needed.
+// ============================================================
+
+import { resolveImages } from '../api/ai';
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  duration: number;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+
+async function runTest(name: string, fn: () => Promise<void>) {
+  const start = Date.now();
+  try {
+    await fn();
+    results.push({ name, passed: true, duration: Date.now() - start });
+    console.log(`  ✅ ${name} (${Date.now() - start}ms)`);
+  } catch (err: any) {
+    results.push({ name, passed: false, duration: Date.now() - start, error: err.message });
+    console.log(`  ❌ ${name} (${Date.now() - start}ms): ${err.message}`);
+  }
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(`Assertion failed: ${message}`);
+}
+
+// 1×1 transparent PNG
+const PNG = Buffer.from('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=', 'base64');
+const PUBLIC_URL = 'http://93.184.215.14/screenshot.png';
+
+// Responses by URL; every fetched URL is recorded
+let responses: Record<string, () => Response> = {};
+let fetched: string[] = [];
+
+globalThis.fetch = (async (input: any) => {
+  const url = String(input);
+  fetched.push(url);
+  const respond = responses[url];
+  if (!respond) throw new TypeError('fetch failed');
+  return respond();
+}) as typeof fetch;
+
+function imageMessages(url: string): any[] {
+  return [{ role: 'user', content: [{ type: 'image_url', image_url: { url } }] }];
+}
+
+async function resolve(url: string): Promise<{ image?: any; error?: string }> {
+  const result = await resolveImages(imageMessages(url), 'anthropic');
+  if ('error' in result) return { error: result.error };
+  return { image: result.messages[0].content[0] };
+}
+
+function png(): Response {
+  return new Response(PNG, { headers: { 'content-type': 'image/png' } });
+}
+
+function redirect(location: string): Response {
+  return new Response(null, { status: 302, headers: { location } });
+}
+
+// ============================================================
+// Tests
+// ============================================================
+
+async function main() {
+  console.log(`\n🧪 Помощник Remote Image Tests\n`);
+
+  console.log('🌐 Hosts:');
+
+  await runTest('Image on a public address is downloaded', async () => {
+    responses = { [PUBLIC_URL]: png };
+    fetched = [];
+    const { image, error } = await resolve(PUBLIC_URL);
+    assert(!error, `Unexpected error ${error}`);
+    assert(image.type === 'inline_image' && image.data === PNG.toString('base64'), `Unexpected part ${JSON.stringify(image)}`);
+  });
+
+  await runTest('Private, loopback and metadata addresses are refused before fetching', async () => {
+    const blocked = [
+      'http://127.0.0.1/a.png', 'http://10.1.2.3/a.png', 'http://172.20.0.1/a.png', 'http://192.168.1.1/a.png',
+      'http://169.254.169.254/latest/meta-data/', 'http://100.64.0.1/a.png', 'http://0.0.0.0/a.png',
+      'http://[::1]/a.png', 'http://[fd00::1]/a.png', 'http://[fe80::1]/a.png', 'http://[::ffff:127.0.0.1]/a.png',
+    ];
+    for (const url of blocked) {
+      responses = { [url]: png };
+      fetched = [];
+      const { error } = await resolve(url);
+      assert(error === 'Image URL must point to a public host.', `${url}: unexpected result ${error}`);
+      assert(fetched.length === 0, `${url} was fetched`);
+    }
+  });
+
+  console.log('\n↪️  Redirects:');
+
+  await runTest('Redirect to a public address is followed', async () => {
+    const target = 'https://93.184.215.15/final.png';
+    responses = { [PUBLIC_URL]: () => redirect(target), [target]: png };
+    fetched = [];
+    const { error } = await resolve(PUBLIC_URL);
+    assert(!error, `Unexpected error ${error}`);
+    assert(fetched.join(' ') === `${PUBLIC_URL} ${target}`, `Unexpected fetches ${fetched.join(' ')}`);
+  });
+
+  await runTest('Redirect to the metadata address is refused', async () => {
+    const target = 'http://169.254.169.254/latest/meta-data/iam/';
+    responses = { [PUBLIC_URL]: () => redirect(target), [target]: png };
+    fetched = [];
+    const { error } = await resolve(PUBLIC_URL);
+    assert(error === 'Image URL must point to a public host.', `Unexpected result ${error}`);
+    assert(!fetched.includes(target), 'Redirect target was fetched');
+  });
+
+  await runTest('Redirect loops stop', async () => {
+    responses = { [PUBLIC_URL]: () => redirect(PUBLIC_URL) };
+    fetched = [];
+    const { error } = await resolve(PUBLIC_URL);
+    assert(error === 'Could not download image: too many redirects.', `Unexpected result ${error}`);
+    assert(fetched.length === 4, `Expected 4 fetches, got ${fetched.length}`);
+  });
+
+  console.log('\n📏 Size:');
+
+  await runTest('Chunked body without Content-Length is cut off past the limit', async () => {
+    let sent = 0;
+    let cancelled = false;
+    const chunk = new Uint8Array(256 * 1024);
+    responses = {
+      [PUBLIC_URL]: () => new Response(new ReadableStream({
+        pull(controller) {
+          sent += chunk.length;
+          controller.enqueue(chunk);
+        },
+        cancel() {
+          cancelled = true;
+        },
+      }), { headers: { 'content-type': 'image/png' } }),
+    };
+    const { error } = await resolve(PUBLIC_URL);
+    assert(!!error && error.startsWith('Image is too large'), `Unexpected result ${error}`);
+    assert(cancelled, 'Body was not cancelled');
+    assert(sent <= 6 * 1024 * 1024, `Read ${sent} bytes`);
+  });
+
+  await runTest('Declared Content-Length over the limit is refused', async () => {
+    responses = {
+      [PUBLIC_URL]: () => new Response(PNG, { headers: { 'content-type': 'image/png', 'content-length': String(50 * 1024 * 1024) } }),
+    };
+    const { error } = await resolve(PUBLIC_URL);
+    assert(!!error && error.startsWith('Image is too large'), `Unexpected result ${error}`);
+  });
+
+  // --- Summary ---
+  console.log('\n' + '='.repeat(50));
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed, ${results.length} total`);
+
+  if (failed > 0) {
+    console.log('\n❌ Failed tests:');
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`   - ${r.name}: ${r.error}`);
+    });
+  }
+
+  console.log('');
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,159 @@
+// ============================================================
+// Помощник Backend — License Key Format Tests
+// ============================================================
+// Run with: npx tsx tests/keys.test.ts
+//
+// Checks the key checksum (lib/keys.ts): generated keys pass,
+// keys with a changed character are rejected, and the lookup key
+// hash is stable. No network or Redis needed.
+// ============================================================
+
+import { generateLicenseKey, hashLicenseKey, isLegacyLicenseKey, isValidLicenseKey } from '../lib/keys';
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  duration: number;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+
+async function runTest(name: string, fn: () => Promise<void>) {
+  const start = Date.now();
+  try {
+    await fn();
+    results.push({ name, passed: true, duration: Date.now() - start });
+    console.log(`  ✅ ${name} (${Date.now() - start}ms)`);
+  } catch (err: any) {
+    results.push({ name, passed: false, duration: Date.now() - start, error: err.message });
+    console.log(`  ❌ ${name} (${Date.now() - start}ms): ${err.message}`);
+  }
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(`Assertion failed: ${message}`);
+}
+
+const KEY_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const KEY_FORMAT = /^POM-[A-HJ-NP-Z2-9]{5}(-[A-HJ-NP-Z2-9]{5}){4}$/;
+
+// The key with the character at `index` replaced by another valid one
+function tamper(key: string, index: number): string {
+  const replacement = KEY_ALPHABET[(KEY_ALPHABET.indexOf(key[index]) + 1) % KEY_ALPHABET.length];
+  return key.slice(0, index) + replacement + key.slice(index + 1);
+}
+
+// ============================================================
+// Tests
+// ============================================================
+
+async function main() {
+  process.env.LICENSE_KEY_SECRET = 'test-secret';
+
+  console.log(`\n🧪 Помощник License Key Tests\n`);
+
+  console.log('🔑 Checksum:');
+
+  await runTest('Generated keys have the checksum format and pass validation', async () => {
+    for (let i = 0; i < 1000; i++) {
+      const key = generateLicenseKey();
+      assert(KEY_FORMAT.test(key), `Unexpected format ${key}`);
+      assert(isValidLicenseKey(key), `Generated key rejected: ${key}`);
+      assert(!isLegacyLicenseKey(key), `Generated key taken for legacy: ${key}`);
+    }
+  });
+
+  await runTest('Generated keys are unique', async () => {
+    const keys = new Set(Array.from({ length: 1000 }, () => generateLicenseKey()));
+    assert(keys.size === 1000, `Expected 1000 distinct keys, got ${keys.size}`);
+  });
+
+  await runTest('Keys typed in lowercase or with spaces pass', async () => {
+    const key = generateLicenseKey();
+    assert(isValidLicenseKey(`  ${key.toLowerCase()} `), `Rejected ${key.toLowerCase()}`);
+  });
+
+  await runTest('Any single changed character is rejected', async () => {
+    const key = generateLicenseKey();
+    for (let index = 4; index < key.length; index++) {
+      if (key[index] === '-') continue;
+      const tampered = tamper(key, index);
+      assert(!isValidLicenseKey(tampered), `Accepted ${tampered} (changed position ${index} of ${key})`);
+    }
+  });
+
+  await runTest('Swapped segments are rejected', async () => {
+    const [prefix, a, b, c, d, checksum] = generateLicenseKey().split('-');
+    const swapped = [prefix, b, a, c, d, checksum].join('-');
+    assert(a === b || !isValidLicenseKey(swapped), `Accepted ${swapped}`);
+  });
+
+  await runTest('Malformed keys are rejected', async () => {
+    const key = generateLicenseKey();
+    for (const bad of ['', 'POM-', key.slice(0, -1), `${key}-AAAAA`, key.replace('POM-', 'PRO-'), key.replace(/-/g, '')]) {
+      assert(!isValidLicenseKey(bad), `Accepted ${JSON.stringify(bad)}`);
+    }
+    assert(!isValidLicenseKey(key.replace(/[A-HJ-NP-Z]/, 'O')), 'Accepted a key with O');
+  });
+
+  await runTest('Legacy keys without a checksum are still accepted', async () => {
+    const legacy = 'POM-A3B5C-D7E9F-G2H4J-K6L8M';
+    assert(isValidLicenseKey(legacy), 'Legacy key rejected');
+    assert(isLegacyLicenseKey(legacy), 'Legacy key not recognised');
+  });
+
+  console.log('\n#️⃣  Lookup key:');
+
+  await runTest('Lookup key is stable and ignores case and spaces', async () => {
+    const key = generateLicenseKey();
+    const lookup = hashLicenseKey(key);
+    assert(/^[0-9a-f]{64}$/.test(lookup), `Unexpected lookup key ${lookup}`);
+    assert(hashLicenseKey(` ${key.toLowerCase()} `) === lookup, 'Lookup key depends on case or spaces');
+    assert(hashLicenseKey(tamper(key, 4)) !== lookup, 'Different keys share a lookup key');
+  });
+
+  await runTest('Lookup key depends on LICENSE_KEY_SECRET', async () => {
+    const key = generateLicenseKey();
+    const lookup = hashLicenseKey(key);
+    process.env.LICENSE_KEY_SECRET = 'another-secret';
+    try {
+      assert(hashLicenseKey(key) !== lookup, 'Same lookup key under another secret');
+    } finally {
+      process.env.LICENSE_KEY_SECRET = 'test-secret';
+    }
+  });
+
+  await runTest('Hashing without LICENSE_KEY_SECRET throws', async () => {
+    delete process.env.LICENSE_KEY_SECRET;
+    try {
+      hashLicenseKey(generateLicenseKey());
+      throw new Error('Expected an error');
+    } catch (err: any) {
+      assert(err.message.includes('LICENSE_KEY_SECRET'), `Unexpected error ${err.message}`);
+    } finally {
+      process.env.LICENSE_KEY_SECRET = 'test-secret';
+    }
+  });
+
+  // --- Summary ---
+  console.log('\n' + '='.repeat(50));
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed, ${results.length} total`);
+
+  if (failed > 0) {
+    console.log('\n❌ Failed tests:');
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`   - ${r.name}: ${r.error}`);
+    });
+  }
+
+  console.log('');
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,231 @@
+// ============================================================
+// Помощник Backend — Stream Transcoder Tests
+// ============================================================
+// Run with: npx tsx tests/streams.test.ts
+//
+// Feeds recorded Anthropic and Gemini SSE streams
+// (tests/fixtures/*.sse) through the transcoders in api/ai.ts,
+// whole, in small pieces and cut off before the provider's
+// terminal event, and checks the OpenAI chunk frames that come
+// out. No network or Redis needed.
+// ============================================================
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { StreamTranscoder, createStreamTranscoder } from '../api/ai';
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  duration: number;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+
+async function runTest(name: string, fn: () => Promise<void>) {
+  const start = Date.now();
+  try {
+    await fn();
+    results.push({ name, passed: true, duration: Date.now() - start });
+    console.log(`  ✅ ${name} (${Date.now() - start}ms)`);
+  } catch (err: any) {
+    results.push({ name, passed: false, duration: Date.now() - start, error: err.message });
+    console.log(`  ❌ ${name} (${Date.now() - start}ms): ${err.message}`);
+  }
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(`Assertion failed: ${message}`);
+}
+
+function fixture(name: string): string {
+  return fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+}
+
+// The stream up to (not including) the first line containing `marker`
+function cutBefore(stream: string, marker: string): string {
+  const index = stream.indexOf(marker);
+  if (index === -1) throw new Error(`Marker ${marker} not in fixture`);
+  return stream.slice(0, stream.lastIndexOf('\n', index) + 1);
+}
+
+interface Transcoded {
+  chunks: any[];        // Parsed chunk frames, [DONE] excluded
+  done: number;         // How many [DONE] frames were sent
+  last: string;         // Payload of the last frame
+  failed: boolean;
+}
+
+// Run raw provider text through a transcoder, `pieceSize` characters at a time
+function transcode(transcoder: StreamTranscoder, stream: string, pieceSize = stream.length || 1): Transcoded {
+  const frames: string[] = [];
+  for (let i = 0; i < stream.length; i += pieceSize) {
+    frames.push(...transcoder.push(stream.slice(i, i + pieceSize)));
+  }
+  frames.push(...transcoder.end());
+
+  const payloads = frames.map(frame => {
+    assert(frame.startsWith('data: ') && frame.endsWith('\n\n'), `Malformed frame ${JSON.stringify(frame)}`);
+    return frame.slice(6).trim();
+  });
+  return {
+    chunks: payloads.filter(p => p !== '[DONE]').map(p => JSON.parse(p)),
+    done: payloads.filter(p => p === '[DONE]').length,
+    last: payloads[payloads.length - 1],
+    failed: transcoder.failed(),
+  };
+}
+
+function contentOf(result: Transcoded): string {
+  return result.chunks.map(c => c.choices?.[0]?.delta?.content ?? '').join('');
+}
+
+function finishReasonOf(result: Transcoded): string | null {
+  return result.chunks.map(c => c.choices?.[0]?.finish_reason).find(Boolean) ?? null;
+}
+
+function errorOf(result: Transcoded): any {
+  return result.chunks.find(c => c.error)?.error;
+}
+
+function assertCompleted(result: Transcoded) {
+  assert(!result.failed, 'Expected the stream to succeed');
+  assert(!errorOf(result), `Unexpected error frame ${JSON.stringify(errorOf(result))}`);
+  assert(result.done === 1 && result.last === '[DONE]', `Expected one closing [DONE], got ${result.done}`);
+}
+
+function assertTruncated(result: Transcoded) {
+  assert(result.failed, 'Expected the stream to count as failed');
+  assert(errorOf(result)?.code === 'stream_interrupted', `Expected a stream_interrupted error, got ${JSON.stringify(errorOf(result))}`);
+  assert(result.done === 1 && result.last === '[DONE]', `Expected one closing [DONE], got ${result.done}`);
+  assert(!finishReasonOf(result), `Expected no finish_reason, got ${finishReasonOf(result)}`);
+}
+
+const EXPECTED_TEXT = 'Здравейте! Как мога да помогна?';
+
+// ============================================================
+// Tests
+// ============================================================
+
+async function main() {
+  console.log(`\n🧪 Помощник Stream Transcoder Tests\n`);
+
+  const anthropic = fixture('anthropic-stream.sse');
+  const gemini = fixture('gemini-stream.sse');
+  const anthropicTranscoder = () => createStreamTranscoder('anthropic', 'claude-sonnet-4-20250514', 'req_test', true);
+  const geminiTranscoder = () => createStreamTranscoder('gemini', 'gemini-2.5-flash', 'req_test', true);
+
+  console.log('🟠 Anthropic:');
+
+  await runTest('Complete stream becomes OpenAI chunks with usage', async () => {
+    const result = transcode(anthropicTranscoder(), anthropic);
+    assertCompleted(result);
+    assert(contentOf(result) === EXPECTED_TEXT, `Unexpected content ${JSON.stringify(contentOf(result))}`);
+    assert(finishReasonOf(result) === 'stop', `Expected finish_reason stop, got ${finishReasonOf(result)}`);
+    assert(result.chunks.every(c => c.id === 'chatcmpl-msg_01XFDUDYJgAACzvnptvVoYEL'), 'Expected the Anthropic message id');
+    const usage = result.chunks.find(c => c.usage)?.usage;
+    assert(usage?.prompt_tokens === 25 && usage?.completion_tokens === 12, `Unexpected usage ${JSON.stringify(usage)}`);
+  });
+
+  await runTest('Stream split into small pieces gives the same result', async () => {
+    const result = transcode(anthropicTranscoder(), anthropic, 7);
+    assertCompleted(result);
+    assert(contentOf(result) === EXPECTED_TEXT, `Unexpected content ${JSON.stringify(contentOf(result))}`);
+  });
+
+  await runTest('Stream without message_stop is truncated', async () => {
+    const result = transcode(anthropicTranscoder(), cutBefore(anthropic, '"message_stop"'));
+    assertTruncated(result);
+    assert(contentOf(result) === EXPECTED_TEXT, 'Expected the text received before the cut');
+  });
+
+  await runTest('Stream cut in the middle of an event is truncated', async () => {
+    const cut = anthropic.slice(0, anthropic.indexOf('Как мога'));
+    const result = transcode(anthropicTranscoder(), cut);
+    assertTruncated(result);
+    assert(contentOf(result) === 'Здравейте', `Unexpected content ${JSON.stringify(contentOf(result))}`);
+  });
+
+  await runTest('Empty stream is truncated', async () => {
+    assertTruncated(transcode(anthropicTranscoder(), ''));
+  });
+
+  await runTest('Error event fails the stream', async () => {
+    const overloaded = 'event: error\ndata: {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}\n\n';
+    const result = transcode(anthropicTranscoder(), cutBefore(anthropic, '"content_block_stop"') + overloaded);
+    assert(result.failed, 'Expected the stream to count as failed');
+    assert(!!errorOf(result), 'Expected an error frame');
+    assert(result.done === 1, `Expected one [DONE], got ${result.done}`);
+  });
+
+  console.log('\n🔵 Gemini:');
+
+  await runTest('Complete stream becomes OpenAI chunks with usage', async () => {
+    const result = transcode(geminiTranscoder(), gemini);
+    assertCompleted(result);
+    assert(contentOf(result) === EXPECTED_TEXT, `Unexpected content ${JSON.stringify(contentOf(result))}`);
+    assert(finishReasonOf(result) === 'stop', `Expected finish_reason stop, got ${finishReasonOf(result)}`);
+    const usage = result.chunks.find(c => c.usage)?.usage;
+    assert(usage?.prompt_tokens === 8 && usage?.completion_tokens === 9 && usage?.total_tokens === 17,
+      `Unexpected usage ${JSON.stringify(usage)}`);
+  });
+
+  await runTest('Stream split into small pieces gives the same result', async () => {
+    const result = transcode(geminiTranscoder(), gemini, 5);
+    assertCompleted(result);
+    assert(contentOf(result) === EXPECTED_TEXT, `Unexpected content ${JSON.stringify(contentOf(result))}`);
+  });
+
+  await runTest('CRLF line endings are accepted', async () => {
+    const result = transcode(geminiTranscoder(), gemini.replace(/\n/g, '\r\n'));
+    assertCompleted(result);
+    assert(contentOf(result) === EXPECTED_TEXT, `Unexpected content ${JSON.stringify(contentOf(result))}`);
+  });
+
+  await runTest('Stream without a finishReason is truncated', async () => {
+    const result = transcode(geminiTranscoder(), cutBefore(gemini, '"finishReason"'));
+    assertTruncated(result);
+    assert(contentOf(result) === 'Здравейте', `Unexpected content ${JSON.stringify(contentOf(result))}`);
+  });
+
+  await runTest('Empty stream is truncated', async () => {
+    assertTruncated(transcode(geminiTranscoder(), ''));
+  });
+
+  await runTest('Blocked prompt ends as content_filter, not truncated', async () => {
+    const blocked = 'data: {"promptFeedback": {"blockReason": "SAFETY"},"usageMetadata": {"promptTokenCount": 8,"totalTokenCount": 8}}\n\n';
+    const result = transcode(geminiTranscoder(), blocked);
+    assertCompleted(result);
+    assert(finishReasonOf(result) === 'content_filter', `Expected content_filter, got ${finishReasonOf(result)}`);
+  });
+
+  console.log('\n🟢 OpenAI:');
+
+  await runTest('Stream without [DONE] is truncated', async () => {
+    const chunk = { id: 'chatcmpl-1', object: 'chat.completion.chunk', choices: [{ index: 0, delta: { content: 'Здравейте' } }] };
+    const result = transcode(createStreamTranscoder('openai', 'gpt-4o', 'req_test', true), `data: ${JSON.stringify(chunk)}\n\n`);
+    assertTruncated(result);
+  });
+
+  // --- Summary ---
+  console.log('\n' + '='.repeat(50));
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed, ${results.length} total`);
+
+  if (failed > 0) {
+    console.log('\n❌ Failed tests:');
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`   - ${r.name}: ${r.error}`);
+    });
+  }
+
+  console.log('');
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});
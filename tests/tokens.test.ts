@@ -0,0 +1,199 @@
+// ============================================================
+// Помощник Backend — License Token Tests
+// ============================================================
+// Run with: npx tsx tests/tokens.test.ts
+//
+// Signs license tokens (lib/tokens.ts) with a throwaway Ed25519
+// key and checks that expired, tampered and foreign tokens are
+// rejected. No network or Redis needed.
+// ============================================================
+
+import { generateKeyPairSync, sign } from 'crypto';
+import type { LicenseRecord } from '../lib/db';
+import type { UsageAccount } from '../lib/orgs';
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  duration: number;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+
+async function runTest(name: string, fn: () => Promise<void>) {
+  const start = Date.now();
+  try {
+    await fn();
+    results.push({ name, passed: true, duration: Date.now() - start });
+    console.log(`  ✅ ${name} (${Date.now() - start}ms)`);
+  } catch (err: any) {
+    results.push({ name, passed: false, duration: Date.now() - start, error: err.message });
+    console.log(`  ❌ ${name} (${Date.now() - start}ms): ${err.message}`);
+  }
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(`Assertion failed: ${message}`);
+}
+
+const TTL_SECONDS = 900;
+const { privateKey } = generateKeyPairSync('ed25519');
+
+const LICENSE: LicenseRecord = {
+  key: 'a'.repeat(64),
+  email: 'tokens@test.local',
+  plan: 'pro',
+  status: 'active',
+  tasksUsedThisMonth: 0,
+  monthResetDate: new Date(Date.now() + 86_400_000).toISOString(),
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+};
+
+const ACCOUNT: UsageAccount = {
+  key: LICENSE.key,
+  taskLimit: 1000,
+  tokenBudgets: { basic: -1, advanced: 2_000_000, premium: 500_000 },
+};
+
+function decodePart(part: string): any {
+  return JSON.parse(Buffer.from(part, 'base64url').toString());
+}
+
+function encodePart(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+// Sign header and payload with the test key, as lib/tokens.ts does
+function signToken(header: unknown, payload: unknown, key = privateKey): string {
+  const signingInput = `${encodePart(header)}.${encodePart(payload)}`;
+  return `${signingInput}.${sign(null, Buffer.from(signingInput), key).toString('base64url')}`;
+}
+
+// Run `fn` with the clock moved `seconds` ahead
+function later<T>(seconds: number, fn: () => T): T {
+  const realNow = Date.now;
+  Date.now = () => realNow() + seconds * 1000;
+  try {
+    return fn();
+  } finally {
+    Date.now = realNow;
+  }
+}
+
+// ============================================================
+// Tests
+// ============================================================
+
+async function main() {
+  process.env.LICENSE_TOKEN_PRIVATE_KEY = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+  process.env.LICENSE_TOKEN_TTL_SECONDS = String(TTL_SECONDS);
+  const tokens = await import('../lib/tokens');
+
+  console.log(`\n🧪 Помощник License Token Tests\n`);
+
+  const issued = tokens.issueLicenseToken(LICENSE, ACCOUNT, 'device-1');
+  if (!issued) throw new Error('Token signing is not configured');
+  const [header, payload, signature] = issued.token.split('.');
+
+  console.log('🎟️  Valid tokens:');
+
+  await runTest('Issued token verifies with its claims', async () => {
+    const claims = tokens.verifyLicenseToken(issued.token);
+    assert(!!claims, 'Token rejected');
+    assert(claims!.sub === LICENSE.key && claims!.plan === 'pro' && claims!.did === 'device-1', `Unexpected claims ${JSON.stringify(claims)}`);
+    assert(claims!.exp - claims!.iat === TTL_SECONDS, `Expected a ${TTL_SECONDS}s lifetime, got ${claims!.exp - claims!.iat}s`);
+    assert(new Date(issued.expiresAt).getTime() === claims!.exp * 1000, 'expiresAt does not match exp');
+  });
+
+  await runTest('Token is told apart from a license key', async () => {
+    assert(tokens.isLicenseToken(issued.token), 'Token not recognised');
+    assert(!tokens.isLicenseToken('POM-A3B5C-D7E9F-G2H4J-K6L8M-QX4ZT'), 'License key taken for a token');
+  });
+
+  await runTest('JWKS publishes the key id in the token header', async () => {
+    const jwk: any = tokens.getTokenJwks()?.keys[0];
+    assert(jwk?.kid === decodePart(header).kid, `JWKS kid ${jwk?.kid} vs header kid ${decodePart(header).kid}`);
+    assert(jwk.kty === 'OKP' && jwk.crv === 'Ed25519' && !jwk.d, 'Expected the public Ed25519 key only');
+  });
+
+  console.log('\n⏰ Expiry:');
+
+  await runTest('Token still verifies just before it expires', async () => {
+    assert(!!later(TTL_SECONDS - 5, () => tokens.verifyLicenseToken(issued.token)), 'Token rejected before exp');
+  });
+
+  await runTest('Expired token is rejected', async () => {
+    assert(later(TTL_SECONDS + 1, () => tokens.verifyLicenseToken(issued.token)) === null, 'Expired token accepted');
+  });
+
+  console.log('\n🔏 Signature:');
+
+  await runTest('Token with a changed signature is rejected', async () => {
+    const bytes = Buffer.from(signature, 'base64url');
+    bytes[0] ^= 0x01;
+    assert(tokens.verifyLicenseToken(`${header}.${payload}.${bytes.toString('base64url')}`) === null, 'Bad signature accepted');
+  });
+
+  await runTest('Token with changed claims is rejected', async () => {
+    const upgraded = encodePart({ ...decodePart(payload), plan: 'business' });
+    assert(tokens.verifyLicenseToken(`${header}.${upgraded}.${signature}`) === null, 'Changed claims accepted');
+  });
+
+  await runTest('Token signed by another key is rejected', async () => {
+    const other = generateKeyPairSync('ed25519').privateKey;
+    const forged = signToken(decodePart(header), decodePart(payload), other);
+    assert(tokens.verifyLicenseToken(forged) === null, 'Token from another key accepted');
+  });
+
+  await runTest('Unsigned token (alg none) is rejected', async () => {
+    const unsigned = `${encodePart({ ...decodePart(header), alg: 'none' })}.${payload}.`;
+    assert(tokens.verifyLicenseToken(unsigned) === null, 'Unsigned token accepted');
+  });
+
+  await runTest('Malformed tokens are rejected', async () => {
+    for (const bad of ['', 'a.b.c', `${header}.${payload}`, `${header}..${signature}`]) {
+      assert(tokens.verifyLicenseToken(bad) === null, `Accepted ${JSON.stringify(bad)}`);
+    }
+  });
+
+  console.log('\n🆔 Key id:');
+
+  await runTest('Token with a wrong kid is rejected even if the signature is valid', async () => {
+    const token = signToken({ ...decodePart(header), kid: 'retired-key' }, decodePart(payload));
+    assert(tokens.verifyLicenseToken(token) === null, 'Wrong kid accepted');
+  });
+
+  await runTest('Token without a kid is rejected', async () => {
+    const { kid, ...withoutKid } = decodePart(header);
+    assert(!!kid, 'Issued header has no kid');
+    assert(tokens.verifyLicenseToken(signToken(withoutKid, decodePart(payload))) === null, 'Token without kid accepted');
+  });
+
+  await runTest('Token from another issuer is rejected', async () => {
+    const token = signToken(decodePart(header), { ...decodePart(payload), iss: 'someone-else' });
+    assert(tokens.verifyLicenseToken(token) === null, 'Foreign issuer accepted');
+  });
+
+  // --- Summary ---
+  console.log('\n' + '='.repeat(50));
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed, ${results.length} total`);
+
+  if (failed > 0) {
+    console.log('\n❌ Failed tests:');
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`   - ${r.name}: ${r.error}`);
+    });
+  }
+
+  console.log('');
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});
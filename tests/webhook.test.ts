@@ -0,0 +1,318 @@
+// ============================================================
+// Помощник Backend — Stripe Webhook Tests
+// ============================================================
+// Run with: npx tsx tests/webhook.test.ts
+//
+// Sends signed Stripe events to api/webhook.ts against a local
+// stand-in for the Upstash REST API (in-memory) and checks the
+// license and credits they leave behind. Events are built here, so no
+// Stripe account, network or real Redis is needed.
+// ============================================================
+
+import * as http from 'http';
+import { EventEmitter } from 'events';
+import type { AddressInfo } from 'net';
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  duration: number;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+
+async function runTest(name: string, fn: () => Promise<void>) {
+  const start = Date.now();
+  try {
+    await fn();
+    results.push({ name, passed: true, duration: Date.now() - start });
+    console.log(`  ✅ ${name} (${Date.now() - start}ms)`);
+  } catch (err: any) {
+    results.push({ name, passed: false, duration: Date.now() - start, error: err.message });
+    console.log(`  ❌ ${name} (${Date.now() - start}ms): ${err.message}`);
+  }
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(`Assertion failed: ${message}`);
+}
+
+// ============================================================
+// Redis stand-in (Upstash REST: POST / with ["CMD", ...args])
+// ============================================================
+// EVAL understands the license patch script from lib/db.ts and the
+// credit grant script from lib/credits.ts.
+
+const store = new Map<string, any>();
+
+function patchLicense(key: string, patchJson: string): string | null {
+  const raw = store.get(key);
+  if (!raw) return null;
+  const record = { ...JSON.parse(raw), ...JSON.parse(patchJson) };
+  for (const field of Object.keys(record)) {
+    if (record[field] === null) delete record[field];
+  }
+  store.set(key, JSON.stringify(record));
+  return store.get(key);
+}
+
+function grantCredits(creditsKey: string, grantKey: string, amount: string): number {
+  if (store.has(grantKey)) return -1;
+  store.set(grantKey, amount);
+  const balance = parseInt(store.get(creditsKey) ?? '0', 10) + parseInt(amount, 10);
+  store.set(creditsKey, String(balance));
+  return balance;
+}
+
+function execute(args: string[]): unknown {
+  const [command, key, ...rest] = args;
+  switch (command.toUpperCase()) {
+    case 'GET':
+      return store.get(key) ?? null;
+    case 'MGET':
+      return [key, ...rest].map(k => store.get(k) ?? null);
+    case 'SET': {
+      if (rest.includes('NX') && store.has(key)) return null;
+      store.set(key, rest[0]);
+      return 'OK';
+    }
+    case 'DEL':
+      return [key, ...rest].filter(k => store.delete(k)).length;
+    case 'EXISTS':
+      return store.has(key) ? 1 : 0;
+    case 'EXPIRE':
+      return 1;
+    case 'LPUSH': {
+      const list = store.get(key) ?? [];
+      list.unshift(...rest);
+      store.set(key, list);
+      return list.length;
+    }
+    case 'LTRIM':
+      return 'OK';
+    case 'EVAL': {
+      const [keyCount, ...keysAndArgs] = rest;
+      if (key.includes('for field, value in pairs(patch)')) return patchLicense(keysAndArgs[0], keysAndArgs[Number(keyCount)]);
+      if (key.includes('INCRBY')) return grantCredits(keysAndArgs[0], keysAndArgs[1], keysAndArgs[2]);
+      throw new Error('Unsupported script');
+    }
+    default:
+      throw new Error(`Unsupported command ${command}`);
+  }
+}
+
+function startRedisStandIn(): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const args: string[] = JSON.parse(Buffer.concat(chunks).toString()).map(String);
+      try {
+        const result = execute(args);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ result }));
+      } catch (err: any) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: err.message }));
+      }
+    });
+  });
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+// ============================================================
+// Stripe events
+// ============================================================
+
+const WEBHOOK_SECRET = 'whsec_test';
+const EMAIL = 'resubscribe@test.local';
+const CUSTOMER_ID = 'cus_test';
+const DAY_SECONDS = 24 * 60 * 60;
+
+let eventCount = 0;
+
+function stripeEvent(type: string, object: unknown, created: number): any {
+  return { id: `evt_test_${++eventCount}`, object: 'event', type, created, data: { object } };
+}
+
+function subscription(id: string, overrides: Record<string, unknown> = {}): any {
+  return {
+    id,
+    object: 'subscription',
+    customer: CUSTOMER_ID,
+    status: 'active',
+    cancel_at_period_end: false,
+    current_period_end: Math.floor(Date.now() / 1000) + 30 * DAY_SECONDS,
+    items: { data: [{ price: { id: 'price_pro' }, quantity: 1 }] },
+    metadata: { email: EMAIL },
+    ...overrides,
+  };
+}
+
+// ============================================================
+// Tests
+// ============================================================
+
+async function main() {
+  const server = await startRedisStandIn();
+  const { port } = server.address() as AddressInfo;
+  process.env.KV_REST_API_URL = `http://127.0.0.1:${port}`;
+  process.env.KV_REST_API_TOKEN = 'test-token';
+  process.env.LICENSE_KEY_SECRET = 'test-secret';
+  process.env.STRIPE_SECRET_KEY = 'sk_test_webhook';
+  process.env.STRIPE_WEBHOOK_SECRET = WEBHOOK_SECRET;
+  process.env.STRIPE_PRICE_STARTER = 'price_starter';
+  process.env.STRIPE_PRICE_PRO = 'price_pro';
+
+  const db = await import('../lib/db');
+  const { getCreditBalance } = await import('../lib/credits');
+  const { hashLicenseKey } = await import('../lib/keys');
+  const { getStripe } = await import('../lib/stripe');
+  const { default: webhook } = await import('../api/webhook');
+
+  // Deliver an event the way Stripe does: signed raw body, streamed
+  async function deliver(event: any): Promise<number> {
+    const payload = JSON.stringify(event);
+    const req: any = new EventEmitter();
+    req.method = 'POST';
+    req.headers = { 'stripe-signature': getStripe().webhooks.generateTestHeaderString({ payload, secret: WEBHOOK_SECRET }) };
+    setImmediate(() => {
+      req.emit('data', Buffer.from(payload));
+      req.emit('end');
+    });
+
+    let status = 200;
+    const res: any = {
+      status(code: number) { status = code; return res; },
+      json() { return res; },
+    };
+    await webhook(req, res);
+    return status;
+  }
+
+  console.log(`\n🧪 Помощник Stripe Webhook Tests`);
+  console.log(`   Redis stand-in: ${process.env.KV_REST_API_URL}\n`);
+
+  console.log('🔁 Re-subscribing after a cancellation:');
+
+  const { record } = await db.createLicense(EMAIL, 'pro', { customerId: CUSTOMER_ID, subscriptionId: 'sub_old' });
+  const now = Math.floor(Date.now() / 1000);
+  // The old period ends a moment from now, so the test can wait it out
+  const oldPeriodEnd = now + 1;
+
+  await runTest('Cancelling the old subscription keeps access until its period ends', async () => {
+    const status = await deliver(stripeEvent('customer.subscription.updated',
+      subscription('sub_old', { cancel_at_period_end: true, current_period_end: oldPeriodEnd }), now));
+    assert(status === 200, `Webhook returned ${status}`);
+    const license = await db.getLicense(record.key);
+    assert(license?.status === 'active' && license.cancelAtPeriodEnd === true, `Unexpected license ${JSON.stringify(license)}`);
+  });
+
+  await runTest('Checkout for a new subscription clears the old billing state', async () => {
+    // Left over from the old subscription's dunning and a scheduled downgrade
+    await db.updateLicense(record.key, {
+      pastDueSince: new Date(now * 1000).toISOString(),
+      downgradedFromPlan: 'pro',
+      scheduledPlan: 'starter',
+      scheduledPlanAt: new Date(oldPeriodEnd * 1000).toISOString(),
+    });
+    const session = {
+      id: 'cs_test_resubscribe',
+      object: 'checkout.session',
+      mode: 'subscription',
+      customer: CUSTOMER_ID,
+      customer_email: EMAIL,
+      subscription: 'sub_new',
+      payment_status: 'paid',
+      metadata: { plan: 'business' },
+    };
+    const status = await deliver(stripeEvent('checkout.session.completed', session, now + 1));
+    assert(status === 200, `Webhook returned ${status}`);
+
+    const license = await db.getLicense(record.key);
+    assert(license?.stripeSubscriptionId === 'sub_new' && license.plan === 'business', `Unexpected license ${JSON.stringify(license)}`);
+    for (const field of ['cancelAtPeriodEnd', 'currentPeriodEnd', 'pastDueSince', 'downgradedFromPlan', 'scheduledPlan', 'scheduledPlanAt'] as const) {
+      assert(license![field] === undefined, `${field} left over: ${license![field]}`);
+    }
+  });
+
+  await runTest('License stays active after the old period ends', async () => {
+    await new Promise(resolve => setTimeout(resolve, (oldPeriodEnd + 1) * 1000 - Date.now()));
+    const license = await db.getLicense(record.key);
+    assert(license?.status === 'active', `Expected active, got ${license?.status}`);
+  });
+
+  await runTest('Deleting the old subscription leaves the new one alone', async () => {
+    const status = await deliver(stripeEvent('customer.subscription.deleted',
+      subscription('sub_old', { status: 'canceled', current_period_end: oldPeriodEnd }), now + 2));
+    assert(status === 200, `Webhook returned ${status}`);
+    const license = await db.getLicense(record.key);
+    assert(license?.status === 'active' && license.stripeSubscriptionId === 'sub_new', `Unexpected license ${JSON.stringify(license)}`);
+  });
+
+  console.log('\n💳 Credit packs:');
+
+  // A credit checkout as /api/buy-credits creates it, for a key that has since been rotated away
+  function creditSession(id: string, metadataKey: string, customer: string | null, email: string | null): any {
+    return {
+      id,
+      object: 'checkout.session',
+      mode: 'payment',
+      customer,
+      customer_email: email,
+      customer_details: email ? { email } : null,
+      payment_status: 'paid',
+      metadata: { type: 'credits', licenseKey: metadataKey, account: metadataKey, pack: 'small', credits: '100' },
+    };
+  }
+
+  await runTest('Credits bought before a rotation follow the key alias', async () => {
+    const rotatedKey = hashLicenseKey('POM-A3B5C-D7E9F-G2H4J-K6L8M');
+    store.set(`keyalias:${rotatedKey}`, record.key);
+    const status = await deliver(stripeEvent('checkout.session.completed', creditSession('cs_test_alias', rotatedKey, null, null), now + 3));
+    assert(status === 200, `Webhook returned ${status}`);
+    const balance = await getCreditBalance(record.key);
+    assert(balance === 100, `Expected 100 credits on the current key, got ${balance}`);
+  });
+
+  await runTest('Credits for a rotated key without an alias are found by Stripe customer', async () => {
+    const rotatedKey = hashLicenseKey('POM-N2P3Q-R4S5T-U6V7W-X8Y9Z');
+    const status = await deliver(stripeEvent('checkout.session.completed', creditSession('cs_test_customer', rotatedKey, CUSTOMER_ID, null), now + 4));
+    assert(status === 200, `Webhook returned ${status}`);
+    const balance = await getCreditBalance(record.key);
+    assert(balance === 200, `Expected 200 credits on the current key, got ${balance}`);
+  });
+
+  await runTest('Credits for a license that can\'t be found fail the event so Stripe retries', async () => {
+    const unknownKey = hashLicenseKey('POM-B3C4D-E5F6G-H7J8K-L9M2N');
+    const event = stripeEvent('checkout.session.completed', creditSession('cs_test_unknown', unknownKey, 'cus_unknown', 'nobody@test.local'), now + 5);
+    const status = await deliver(event);
+    assert(status === 500, `Expected 500, got ${status}`);
+    assert(!store.has(`webhook:event:${event.id}`), 'Event stayed claimed, so the retry would be dropped');
+  });
+
+  server.close();
+
+  // --- Summary ---
+  console.log('\n' + '='.repeat(50));
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed, ${results.length} total`);
+
+  if (failed > 0) {
+    console.log('\n❌ Failed tests:');
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`   - ${r.name}: ${r.error}`);
+    });
+  }
+
+  console.log('');
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch(err => {
+  console.error('Test runner error:', err);
+  process.exit(1);
+});